@@ -0,0 +1,157 @@
+/**
+ * Request guards shared by the serverless functions.
+ *
+ * Files under api/_lib are not deployed as functions (leading underscore).
+ *
+ * Every rejection goes through `reject` so callers always receive the same
+ * shape: { error, code, message }.
+ */
+
+import type { VercelRequest, VercelResponse } from "@vercel/node";
+
+// ---------------------------------------------------------------------------
+// Rejections
+// ---------------------------------------------------------------------------
+
+export type RejectionCode =
+  | "origin_not_allowed"
+  | "method_not_allowed"
+  | "missing_target"
+  | "invalid_target"
+  | "target_not_allowed"
+  | "payload_too_large"
+  | "rate_limited"
+  | "not_configured";
+
+export const reject = (
+  res: VercelResponse,
+  status: number,
+  code: RejectionCode,
+  message: string
+) => {
+  return res.status(status).json({ error: message, code, message });
+};
+
+// ---------------------------------------------------------------------------
+// Origins (CORS)
+// ---------------------------------------------------------------------------
+
+const parseList = (raw: string | undefined): string[] =>
+  (raw || "")
+    .split(",")
+    .map((s) => s.trim())
+    .filter(Boolean);
+
+/**
+ * ALLOWED_ORIGINS (comma-separated) wins; otherwise the deployment's own
+ * Vercel URLs plus the local dev server.
+ */
+export const getAllowedOrigins = (): string[] => {
+  const configured = parseList(process.env.ALLOWED_ORIGINS);
+  if (configured.length > 0) return configured;
+
+  const origins = ["http://localhost:3000", "http://127.0.0.1:3000"];
+  for (const host of [process.env.VERCEL_URL, process.env.VERCEL_PROJECT_PRODUCTION_URL]) {
+    if (host) origins.push(`https://${host}`);
+  }
+  return origins;
+};
+
+/** Origin of the caller, falling back to the Referer for same-origin GETs */
+export const getRequestOrigin = (req: VercelRequest): string | null => {
+  const origin = req.headers.origin;
+  if (typeof origin === "string" && origin) return origin;
+
+  const referer = req.headers.referer;
+  if (typeof referer === "string" && referer) {
+    try {
+      return new URL(referer).origin;
+    } catch {
+      return null;
+    }
+  }
+  return null;
+};
+
+/**
+ * Sets CORS headers for an allowed origin. Returns false (headers untouched)
+ * when the caller's origin is missing or not on the allowlist.
+ */
+export const applyCors = (
+  req: VercelRequest,
+  res: VercelResponse,
+  options: { methods: string[]; headers: string[] }
+): boolean => {
+  const origin = getRequestOrigin(req);
+  if (!origin || !getAllowedOrigins().includes(origin)) return false;
+
+  res.setHeader("Access-Control-Allow-Origin", origin);
+  res.setHeader("Vary", "Origin");
+  res.setHeader("Access-Control-Allow-Methods", options.methods.join(", "));
+  res.setHeader("Access-Control-Allow-Headers", options.headers.join(", "));
+  return true;
+};
+
+// ---------------------------------------------------------------------------
+// Rate limiting
+// ---------------------------------------------------------------------------
+
+interface RateWindow {
+  count: number;
+  resetAt: number;
+}
+
+/**
+ * Fixed-window, per-IP limiter. State lives in the function instance's
+ * memory, so it is best-effort across cold starts and parallel instances.
+ */
+export const createRateLimiter = (limit: number, windowMs: number) => {
+  const windows = new Map<string, RateWindow>();
+
+  return (key: string): { allowed: boolean; retryAfterSeconds: number } => {
+    const now = Date.now();
+
+    // Drop expired windows so the map does not grow without bound
+    if (windows.size > 1000) {
+      for (const [k, w] of windows) {
+        if (w.resetAt <= now) windows.delete(k);
+      }
+    }
+
+    let window = windows.get(key);
+    if (!window || window.resetAt <= now) {
+      window = { count: 0, resetAt: now + windowMs };
+      windows.set(key, window);
+    }
+
+    window.count++;
+    return {
+      allowed: window.count <= limit,
+      retryAfterSeconds: Math.ceil((window.resetAt - now) / 1000),
+    };
+  };
+};
+
+export const getClientIp = (req: VercelRequest): string => {
+  const forwarded = req.headers["x-forwarded-for"];
+  const first = (Array.isArray(forwarded) ? forwarded[0] : forwarded)?.split(",")[0]?.trim();
+  return first || req.socket?.remoteAddress || "unknown";
+};
+
+// ---------------------------------------------------------------------------
+// Payload size
+// ---------------------------------------------------------------------------
+
+/** Size of the request body in bytes (declared length, or the parsed body) */
+export const getBodySize = (req: VercelRequest): number => {
+  const declared = Number(req.headers["content-length"]);
+  if (Number.isFinite(declared) && declared > 0) return declared;
+  if (req.body === undefined || req.body === null) return 0;
+  const raw = typeof req.body === "string" ? req.body : JSON.stringify(req.body);
+  return new TextEncoder().encode(raw).length;
+};
+
+export const readIntEnv = (name: string, fallback: number): number => {
+  const value = Number.parseInt(process.env[name] || "", 10);
+  return Number.isFinite(value) && value > 0 ? value : fallback;
+};
@@ -13,43 +13,102 @@
  *   - The request body as-is
  *
  * This proxy:
- *   1. Reads x-fal-target-url from the incoming request
- *   2. Forwards the request to that URL with Authorization header
- *   3. Returns the response back to the browser
+ *   1. Rejects callers whose Origin is not on the allowlist, who exceed the
+ *      per-IP rate limit, or whose body is too large
+ *   2. Reads x-fal-target-url and only accepts https URLs on fal.ai hosts
+ *   3. Forwards the request to that URL with Authorization header
+ *   4. Returns the response back to the browser
+ *
+ * Configuration (all optional):
+ *   ALLOWED_ORIGINS            comma-separated origins (default: this deployment + localhost:3000)
+ *   FAL_ALLOWED_HOSTS          comma-separated host suffixes (default: fal.run, fal.ai)
+ *   FAL_PROXY_RATE_LIMIT       requests per IP per minute (default: 60)
+ *   FAL_PROXY_MAX_BODY_BYTES   max request body size (default: 4 MB)
  */
 
 import type { VercelRequest, VercelResponse } from "@vercel/node";
+import {
+  applyCors,
+  createRateLimiter,
+  getBodySize,
+  getClientIp,
+  readIntEnv,
+  reject,
+} from "../_lib/guard";
 
 const FAL_KEY = process.env.FAL_KEY;
 
+const ALLOWED_METHODS = ["GET", "POST", "PUT"];
+const ALLOWED_HOSTS = (process.env.FAL_ALLOWED_HOSTS || "fal.run,fal.ai")
+  .split(",")
+  .map((h) => h.trim().toLowerCase())
+  .filter(Boolean);
+const MAX_BODY_BYTES = readIntEnv("FAL_PROXY_MAX_BODY_BYTES", 4 * 1024 * 1024);
+
+const rateLimit = createRateLimiter(readIntEnv("FAL_PROXY_RATE_LIMIT", 60), 60_000);
+
+/** https URL on an allowed fal.ai host (exact match or subdomain) */
+const isAllowedTarget = (url: URL): boolean => {
+  if (url.protocol !== "https:" || url.username || url.password || url.port) return false;
+  const host = url.hostname.toLowerCase();
+  return ALLOWED_HOSTS.some((allowed) => host === allowed || host.endsWith(`.${allowed}`));
+};
+
 export default async function handler(req: VercelRequest, res: VercelResponse) {
-  // CORS headers for browser requests
-  res.setHeader("Access-Control-Allow-Origin", "*");
-  res.setHeader("Access-Control-Allow-Methods", "GET, POST, PUT, DELETE, OPTIONS");
-  res.setHeader(
-    "Access-Control-Allow-Headers",
-    "Content-Type, Authorization, x-fal-target-url, x-fal-request-id"
-  );
+  // CORS headers for allowed browser origins only
+  const originAllowed = applyCors(req, res, {
+    methods: [...ALLOWED_METHODS, "OPTIONS"],
+    headers: ["Content-Type", "Authorization", "x-fal-target-url", "x-fal-request-id"],
+  });
+  if (!originAllowed) {
+    return reject(res, 403, "origin_not_allowed", "Origin not allowed");
+  }
 
   // Handle preflight
   if (req.method === "OPTIONS") {
     return res.status(200).end();
   }
 
+  if (!ALLOWED_METHODS.includes(req.method || "")) {
+    res.setHeader("Allow", ALLOWED_METHODS.join(", "));
+    return reject(res, 405, "method_not_allowed", `Method ${req.method} not allowed`);
+  }
+
+  const limit = rateLimit(getClientIp(req));
+  if (!limit.allowed) {
+    res.setHeader("Retry-After", String(limit.retryAfterSeconds));
+    return reject(res, 429, "rate_limited", "Too many requests, try again later");
+  }
+
+  if (getBodySize(req) > MAX_BODY_BYTES) {
+    return reject(res, 413, "payload_too_large", `Request body exceeds ${MAX_BODY_BYTES} bytes`);
+  }
+
   if (!FAL_KEY) {
-    return res.status(500).json({ error: "FAL_KEY not configured on server" });
+    return reject(res, 500, "not_configured", "FAL_KEY not configured on server");
   }
 
   // The fal.ai client sends the target URL in this header
-  const targetUrl =
+  const rawTarget =
     (req.headers["x-fal-target-url"] as string) ||
     (req.query?.target_url as string);
 
-  if (!targetUrl) {
-    return res.status(400).json({
-      error: "Missing x-fal-target-url header",
-    });
+  if (!rawTarget) {
+    return reject(res, 400, "missing_target", "Missing x-fal-target-url header");
+  }
+
+  let target: URL;
+  try {
+    target = new URL(rawTarget);
+  } catch {
+    return reject(res, 400, "invalid_target", "x-fal-target-url is not a valid URL");
+  }
+
+  if (!isAllowedTarget(target)) {
+    console.warn(`[fal-proxy] Blocked target ${target.host} from ${getClientIp(req)}`);
+    return reject(res, 403, "target_not_allowed", `Target host ${target.host} is not allowed`);
   }
+  const targetUrl = target.toString();
 
   try {
     // Forward headers (excluding host and fal-specific proxy headers)
@@ -69,8 +128,9 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
       }
     }
 
-    // Forward the request to fal.ai
+    // Forward the request to fal.ai (never follow redirects off the allowlist)
     const response = await fetch(targetUrl, {
+      redirect: "manual",
       method: req.method || "POST",
       headers: forwardHeaders,
       body: req.method !== "GET" ? JSON.stringify(req.body) : undefined,
@@ -0,0 +1,176 @@
+/**
+ * Vercel Serverless Function — hair simulation
+ *
+ * Runs the image generation on the server so GEMINI_API_KEY / OPENAI_API_KEY
+ * never ship in the browser bundle. The browser prepares the images
+ * (pre-fill, compression, mask) and posts them here:
+ *
+ *   POST /api/simulate
+ *   { provider: "gemini" | "openai", angle, original, composite, mask?, temperature?, reask?, density?, hair?, stage?, reference? }
+ *
+ * The prompt is always built here from PROMPTS, never taken from the caller.
+ * `reference` (a before/after case, data URL) only reaches the Gemini backend.
+ * Responds with { image } (data URL) or { error, message, category? }, where
+ * category is a SimulationErrorCategory the browser uses to decide on retries.
+ *
+ * Guarded like the fal.ai proxy: only allowed origins (ALLOWED_ORIGINS), a
+ * per-IP rate limit and a body-size cap. Optional settings:
+ *   SIMULATE_RATE_LIMIT       requests per IP per minute (default: 120)
+ *   SIMULATE_MAX_BODY_BYTES   max request body size (default: 4 MB)
+ */
+
+import type { VercelRequest, VercelResponse } from "@vercel/node";
+import {
+  applyCors,
+  createRateLimiter,
+  getBodySize,
+  getClientIp,
+  readIntEnv,
+  reject,
+} from "./_lib/guard";
+import { CATEGORY_STATUS, classifyError } from "../services/errors";
+import { buildPrompt, isDensityLevel, isGrowthStage, isHairPromptInfo, isSimulationAngle } from "../services/prompts";
+import { createGeminiProvider } from "../services/providers/geminiProvider";
+import { createOpenAIProvider } from "../services/providers/openaiProvider";
+import type { SimulateRequestBody } from "../services/providers/serverProvider";
+import type { ImageProvider } from "../services/providers/types";
+
+const GEMINI_API_KEY = process.env.GEMINI_API_KEY || process.env.API_KEY || "";
+const OPENAI_API_KEY = process.env.OPENAI_API_KEY || "";
+
+const DATA_URL_RE = /^data:image\/(png|jpeg|webp);base64,/;
+
+const MAX_BODY_BYTES = readIntEnv("SIMULATE_MAX_BODY_BYTES", 4 * 1024 * 1024);
+// A full run is one call per angle and variant, plus re-asks and retries
+const rateLimit = createRateLimiter(readIntEnv("SIMULATE_RATE_LIMIT", 120), 60_000);
+
+/** Both backends accept 0-2; anything else falls back to the default */
+const DEFAULT_TEMPERATURE = 0.8;
+const MAX_TEMPERATURE = 2;
+
+const clampTemperature = (value: unknown): number =>
+  typeof value === "number" && Number.isFinite(value)
+    ? Math.min(MAX_TEMPERATURE, Math.max(0, value))
+    : DEFAULT_TEMPERATURE;
+
+// Built lazily so a missing key only breaks the backend that needs it
+const providers: Partial<Record<SimulateRequestBody["provider"], ImageProvider>> = {};
+
+const getServerProvider = (id: SimulateRequestBody["provider"]): ImageProvider | null => {
+  if (id === "gemini") {
+    if (!GEMINI_API_KEY) return null;
+    providers.gemini ??= createGeminiProvider(GEMINI_API_KEY);
+    return providers.gemini;
+  }
+  if (id === "openai") {
+    if (!OPENAI_API_KEY) return null;
+    providers.openai ??= createOpenAIProvider(OPENAI_API_KEY);
+    return providers.openai;
+  }
+  return null;
+};
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  const originAllowed = applyCors(req, res, { methods: ["POST", "OPTIONS"], headers: ["Content-Type"] });
+  if (!originAllowed) {
+    return reject(res, 403, "origin_not_allowed", "Origin not allowed");
+  }
+
+  if (req.method === "OPTIONS") {
+    return res.status(200).end();
+  }
+
+  if (req.method !== "POST") {
+    res.setHeader("Allow", "POST");
+    return res.status(405).json({ error: "Method not allowed" });
+  }
+
+  const limit = rateLimit(getClientIp(req));
+  if (!limit.allowed) {
+    res.setHeader("Retry-After", String(limit.retryAfterSeconds));
+    return reject(res, 429, "rate_limited", "Too many requests, try again later");
+  }
+
+  if (getBodySize(req) > MAX_BODY_BYTES) {
+    return reject(res, 413, "payload_too_large", `Request body exceeds ${MAX_BODY_BYTES} bytes`);
+  }
+
+  const body = (req.body || {}) as Partial<SimulateRequestBody>;
+  const providerId = body.provider || "gemini";
+
+  if (providerId !== "gemini" && providerId !== "openai") {
+    return res.status(400).json({ error: "Invalid provider", message: `Provider desconhecido: ${providerId}` });
+  }
+  if (!isSimulationAngle(body.angle)) {
+    return res.status(400).json({ error: "Invalid angle", message: "Angulo invalido" });
+  }
+  if (!body.original || !DATA_URL_RE.test(body.original)) {
+    return res.status(400).json({ error: "Invalid original", message: "Foto original ausente ou invalida" });
+  }
+  if (!body.composite || !DATA_URL_RE.test(body.composite)) {
+    return res.status(400).json({ error: "Invalid composite", message: "Foto marcada ausente ou invalida" });
+  }
+  if (body.mask && !DATA_URL_RE.test(body.mask)) {
+    return res.status(400).json({ error: "Invalid mask", message: "Mascara invalida" });
+  }
+  if (body.density !== undefined && !isDensityLevel(body.density)) {
+    return res.status(400).json({ error: "Invalid density", message: "Densidade invalida" });
+  }
+  if (body.hair !== undefined && !isHairPromptInfo(body.hair)) {
+    return res.status(400).json({ error: "Invalid hair", message: "Amostra de cabelo invalida" });
+  }
+  if (body.stage !== undefined && !isGrowthStage(body.stage)) {
+    return res.status(400).json({ error: "Invalid stage", message: "Estagio de crescimento invalido" });
+  }
+  if (body.reference !== undefined && !(typeof body.reference === "string" && DATA_URL_RE.test(body.reference))) {
+    return res.status(400).json({ error: "Invalid reference", message: "Imagem de referencia invalida" });
+  }
+  // OpenAI edits a single image: the prompt must not mention a third one
+  const reference = providerId === "gemini" ? body.reference : undefined;
+  // Rebuilt field by field: nothing else from the caller reaches the prompt
+  const hair = body.hair && { palette: body.hair.palette, texture: body.hair.texture };
+
+  const provider = getServerProvider(providerId);
+  if (!provider) {
+    return res.status(500).json({ error: `${providerId.toUpperCase()} key not configured on server` });
+  }
+
+  // Stop paying for a generation nobody is waiting for
+  const controller = new AbortController();
+  res.on("close", () => {
+    if (!res.writableEnded) controller.abort();
+  });
+
+  try {
+    const image = await provider.generate({
+      angle: body.angle,
+      originalDataUrl: body.original,
+      annotatedDataUrl: body.composite,
+      maskDataUrl: body.mask,
+      prompt: buildPrompt(body.angle, {
+        reask: body.reask === true,
+        density: body.density,
+        hair,
+        stage: body.stage,
+        reference: !!reference,
+      }),
+      reask: body.reask === true,
+      density: body.density,
+      hair,
+      stage: body.stage,
+      referenceDataUrl: reference,
+      label: `api-simulate-${body.angle}`,
+      temperature: clampTemperature(body.temperature),
+      signal: controller.signal,
+    });
+    return res.status(200).json({ image });
+  } catch (err: any) {
+    console.error("[simulate] Error:", err);
+    const error = classifyError(err);
+    return res.status(CATEGORY_STATUS[error.category]).json({
+      error: "Generation failed",
+      message: error.message,
+      category: error.category,
+    });
+  }
+}
@@ -0,0 +1,133 @@
+import React, { useState } from 'react';
+
+export type CompareMode = 'wipe' | 'hold';
+
+interface BeforeAfterCompareProps {
+  before: string;
+  after: string;
+  /** Same fit for both images, so they stay pixel-aligned */
+  fit?: 'cover' | 'contain';
+  initialMode?: CompareMode;
+  className?: string;
+}
+
+/**
+ * The result over the original in one frame: drag the divider to wipe
+ * between them, or (hold mode) press and hold to see the original.
+ */
+const BeforeAfterCompare: React.FC<BeforeAfterCompareProps> = ({
+  before,
+  after,
+  fit = 'cover',
+  initialMode = 'wipe',
+  className = '',
+}) => {
+  const [mode, setMode] = useState<CompareMode>(initialMode);
+  // Share of the width (0–100) showing the original, from the left
+  const [position, setPosition] = useState(50);
+  const [holding, setHolding] = useState(false);
+  const [dragging, setDragging] = useState(false);
+
+  const positionFromEvent = (e: React.PointerEvent<HTMLDivElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    return Math.min(100, Math.max(0, ((e.clientX - rect.left) / rect.width) * 100));
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
+    e.preventDefault();
+    e.currentTarget.setPointerCapture(e.pointerId);
+    if (mode === 'hold') {
+      setHolding(true);
+    } else {
+      setDragging(true);
+      setPosition(positionFromEvent(e));
+    }
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (mode === 'wipe' && dragging) setPosition(positionFromEvent(e));
+  };
+
+  const handlePointerUp = () => {
+    setHolding(false);
+    setDragging(false);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLDivElement>) => {
+    if (mode !== 'wipe') return;
+    if (e.key === 'ArrowLeft') setPosition((p) => Math.max(0, p - 5));
+    else if (e.key === 'ArrowRight') setPosition((p) => Math.min(100, p + 5));
+    else return;
+    e.preventDefault();
+  };
+
+  const beforeShare = mode === 'wipe' ? position : holding ? 100 : 0;
+  const fitClass = fit === 'cover' ? 'object-cover' : 'object-contain';
+
+  return (
+    <div className={`relative overflow-hidden select-none ${className}`}>
+      <div
+        role={mode === 'wipe' ? 'slider' : 'button'}
+        aria-label={mode === 'wipe' ? 'Comparar antes e depois' : 'Segure para ver o antes'}
+        aria-valuemin={mode === 'wipe' ? 0 : undefined}
+        aria-valuemax={mode === 'wipe' ? 100 : undefined}
+        aria-valuenow={mode === 'wipe' ? Math.round(position) : undefined}
+        tabIndex={0}
+        className={`absolute inset-0 ${mode === 'wipe' ? 'cursor-ew-resize' : 'cursor-pointer'}`}
+        style={{ touchAction: 'none' }}
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerCancel={handlePointerUp}
+        onKeyDown={handleKeyDown}
+      >
+        <img src={after} alt="Depois" className={`absolute inset-0 w-full h-full ${fitClass}`} draggable={false} />
+        <img
+          src={before}
+          alt="Antes"
+          className={`absolute inset-0 w-full h-full ${fitClass}`}
+          style={{ clipPath: `inset(0 ${100 - beforeShare}% 0 0)` }}
+          draggable={false}
+        />
+
+        {mode === 'wipe' && (
+          <div className="absolute top-0 bottom-0 pointer-events-none" style={{ left: `${position}%` }}>
+            <div className="absolute top-0 bottom-0 -translate-x-1/2 w-0.5 bg-white shadow-[0_0_4px_rgba(0,0,0,0.5)]" />
+            <div className="absolute top-1/2 -translate-x-1/2 -translate-y-1/2 w-7 h-7 rounded-full bg-white shadow-md flex items-center justify-center">
+              <svg className="w-4 h-4 text-[#1D4998]" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2.5" d="M8 7l-5 5 5 5M16 7l5 5-5 5" />
+              </svg>
+            </div>
+          </div>
+        )}
+
+        <div className="absolute bottom-1 left-1 bg-gray-800/70 text-white text-[8px] font-bold px-2 py-0.5 rounded-full uppercase pointer-events-none">
+          Antes
+        </div>
+        <div className="absolute bottom-1 right-1 bg-[#57BEB7]/80 text-white text-[8px] font-bold px-2 py-0.5 rounded-full uppercase pointer-events-none">
+          Depois
+        </div>
+        {mode === 'hold' && !holding && (
+          <div className="absolute top-1/2 left-1/2 -translate-x-1/2 -translate-y-1/2 bg-gray-800/60 text-white text-[9px] font-bold px-3 py-1 rounded-full uppercase pointer-events-none">
+            Segure para ver o antes
+          </div>
+        )}
+      </div>
+
+      {/* Mode */}
+      <div className="absolute top-1 left-1 flex rounded-full bg-gray-800/60 p-0.5">
+        {(['wipe', 'hold'] as CompareMode[]).map((m) => (
+          <button
+            key={m}
+            onClick={() => setMode(m)}
+            className={`px-2 py-0.5 rounded-full text-[8px] font-bold uppercase transition-all ${mode === m ? 'bg-white text-[#1D4998]' : 'text-white'}`}
+          >
+            {m === 'wipe' ? 'Deslizar' : 'Segurar'}
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default BeforeAfterCompare;
@@ -0,0 +1,96 @@
+import React, { useRef } from 'react';
+import type { Point } from '../types';
+
+interface CalibrationEditorProps {
+  /** Natural image size — the SVG works in image pixels */
+  width: number;
+  height: number;
+  points: Point[];
+  /** Handle radius in image pixels (so it stays the same size on screen) */
+  handleRadius: number;
+  onChange: (points: Point[]) => void;
+}
+
+/**
+ * Reference segment over the photo: click both ends of the coin, ruler or
+ * pupils, then drag the ends to refine. A third click starts over.
+ */
+const CalibrationEditor: React.FC<CalibrationEditorProps> = ({ width, height, points, handleRadius, onChange }) => {
+  const svgRef = useRef<SVGSVGElement>(null);
+  const dragIndexRef = useRef<number | null>(null);
+
+  const toImageCoords = (e: React.PointerEvent): Point => {
+    const rect = svgRef.current!.getBoundingClientRect();
+    return {
+      x: Math.min(width, Math.max(0, ((e.clientX - rect.left) * width) / rect.width)),
+      y: Math.min(height, Math.max(0, ((e.clientY - rect.top) * height) / rect.height)),
+    };
+  };
+
+  const handleBackgroundDown = (e: React.PointerEvent<SVGSVGElement>) => {
+    e.preventDefault();
+    svgRef.current?.setPointerCapture(e.pointerId);
+    const base = points.length >= 2 ? [] : points;
+    dragIndexRef.current = base.length;
+    onChange([...base, toImageCoords(e)]);
+  };
+
+  const handlePointDown = (e: React.PointerEvent<SVGCircleElement>, index: number) => {
+    e.preventDefault();
+    e.stopPropagation();
+    svgRef.current?.setPointerCapture(e.pointerId);
+    dragIndexRef.current = index;
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<SVGSVGElement>) => {
+    const index = dragIndexRef.current;
+    if (index === null) return;
+    const next = [...points];
+    next[index] = toImageCoords(e);
+    onChange(next);
+  };
+
+  const handlePointerUp = () => {
+    dragIndexRef.current = null;
+  };
+
+  return (
+    <svg
+      ref={svgRef}
+      viewBox={`0 0 ${width} ${height}`}
+      preserveAspectRatio="none"
+      className="absolute inset-0 w-full h-full cursor-crosshair"
+      style={{ touchAction: 'none' }}
+      onPointerDown={handleBackgroundDown}
+      onPointerMove={handlePointerMove}
+      onPointerUp={handlePointerUp}
+      onPointerCancel={handlePointerUp}
+    >
+      {points.length === 2 && (
+        <line
+          x1={points[0].x}
+          y1={points[0].y}
+          x2={points[1].x}
+          y2={points[1].y}
+          stroke="#f59e0b"
+          strokeWidth={handleRadius * 0.4}
+        />
+      )}
+      {points.map((p, i) => (
+        <circle
+          key={i}
+          cx={p.x}
+          cy={p.y}
+          r={handleRadius}
+          fill="none"
+          stroke="#f59e0b"
+          strokeWidth={handleRadius * 0.35}
+          className="cursor-move"
+          onPointerDown={(e) => handlePointDown(e, i)}
+        />
+      ))}
+    </svg>
+  );
+};
+
+export default CalibrationEditor;
@@ -0,0 +1,276 @@
+import React, { useEffect, useRef, useState } from 'react';
+import type { SimulationAngle } from '../types';
+
+interface CameraCaptureProps {
+  angle: SimulationAngle;
+  label: string;
+  instruction: string;
+  onCapture: (dataUrl: string) => void;
+  onClose: () => void;
+}
+
+type Facing = 'environment' | 'user';
+
+const COUNTDOWN_OPTIONS = [0, 3, 5, 10];
+
+// Guides are drawn in a 100x100 box centered over the preview
+const profileFacingLeft = (
+  <>
+    <path d="M60 16 C76 18 82 36 79 52 C77 64 71 71 65 75 L66 92 M40 92 L41 79 C35 77 33 71 32 65 L27 61 L32 57 C30 51 29 44 31 37 C35 24 46 15 60 16 Z" />
+    <ellipse cx="62" cy="48" rx="4" ry="7" />
+  </>
+);
+
+// Close-up of one eye and its brow, for the eyebrow three-quarter views
+const browFacingLeft = (
+  <>
+    <path d="M22 44 Q46 30 78 40" strokeDasharray="2 2" />
+    <ellipse cx="50" cy="58" rx="20" ry="9" />
+    <circle cx="46" cy="58" r="5" />
+  </>
+);
+
+const GUIDES: Record<SimulationAngle, React.ReactNode> = {
+  frontal: (
+    <>
+      <ellipse cx="50" cy="46" rx="20" ry="27" />
+      <path d="M34 32 Q50 22 66 32" strokeDasharray="2 2" />
+      <path d="M12 100 C18 84 34 79 42 74 M88 100 C82 84 66 79 58 74" />
+    </>
+  ),
+  top: (
+    <>
+      <circle cx="50" cy="50" r="31" />
+      <path d="M50 19 L50 81" strokeDasharray="2 2" />
+      <path d="M32 74 Q50 86 68 74" />
+    </>
+  ),
+  left: profileFacingLeft,
+  right: <g transform="translate(100 0) scale(-1 1)">{profileFacingLeft}</g>,
+  crown: (
+    <>
+      <ellipse cx="50" cy="44" rx="24" ry="29" />
+      <circle cx="50" cy="34" r="6" strokeDasharray="2 2" />
+      <path d="M40 72 L39 92 M60 72 L61 92" />
+    </>
+  ),
+  beard_front: (
+    <>
+      <ellipse cx="50" cy="46" rx="20" ry="27" />
+      <path d="M31 48 Q33 70 50 74 Q67 70 69 48" strokeDasharray="2 2" />
+      <path d="M42 60 Q50 57 58 60" strokeDasharray="2 2" />
+    </>
+  ),
+  beard_left: (
+    <>
+      {profileFacingLeft}
+      <path d="M56 58 Q52 70 41 76" strokeDasharray="2 2" />
+    </>
+  ),
+  beard_right: (
+    <g transform="translate(100 0) scale(-1 1)">
+      {profileFacingLeft}
+      <path d="M56 58 Q52 70 41 76" strokeDasharray="2 2" />
+    </g>
+  ),
+  brow_front: (
+    <>
+      <path d="M10 42 Q26 32 44 38 M56 38 Q74 32 90 42" strokeDasharray="2 2" />
+      <ellipse cx="28" cy="54" rx="14" ry="7" />
+      <ellipse cx="72" cy="54" rx="14" ry="7" />
+    </>
+  ),
+  brow_left: browFacingLeft,
+  brow_right: <g transform="translate(100 0) scale(-1 1)">{browFacingLeft}</g>,
+};
+
+/**
+ * Live camera with an angle-specific silhouette, so every patient is framed
+ * the same way. Capture runs an optional countdown; the still can be retaken
+ * before it is used.
+ */
+const CameraCapture: React.FC<CameraCaptureProps> = ({ angle, label, instruction, onCapture, onClose }) => {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const streamRef = useRef<MediaStream | null>(null);
+
+  // Rear camera by default: the consultant photographs the patient
+  const [facing, setFacing] = useState<Facing>('environment');
+  const [error, setError] = useState<string | null>(null);
+  const [countdownSeconds, setCountdownSeconds] = useState(3);
+  const [remaining, setRemaining] = useState<number | null>(null);
+  const [still, setStill] = useState<string | null>(null);
+
+  // (Re)open the camera whenever the facing changes
+  useEffect(() => {
+    let cancelled = false;
+    setError(null);
+
+    if (!navigator.mediaDevices?.getUserMedia) {
+      setError('Camera nao disponivel neste navegador.');
+      return;
+    }
+
+    navigator.mediaDevices
+      .getUserMedia({
+        video: { facingMode: facing, width: { ideal: 1920 }, height: { ideal: 1920 } },
+        audio: false,
+      })
+      .then((stream) => {
+        if (cancelled) {
+          stream.getTracks().forEach((t) => t.stop());
+          return;
+        }
+        streamRef.current = stream;
+        if (videoRef.current) videoRef.current.srcObject = stream;
+      })
+      .catch((err) => {
+        console.warn('[Camera] getUserMedia falhou:', err);
+        setError(
+          err?.name === 'NotAllowedError'
+            ? 'Permissao da camera negada. Libere o acesso nas configuracoes do navegador.'
+            : 'Nao foi possivel abrir a camera.'
+        );
+      });
+
+    return () => {
+      cancelled = true;
+      streamRef.current?.getTracks().forEach((t) => t.stop());
+      streamRef.current = null;
+    };
+  }, [facing]);
+
+  const grabFrame = () => {
+    const video = videoRef.current;
+    if (!video || !video.videoWidth) return;
+    const canvas = document.createElement('canvas');
+    canvas.width = video.videoWidth;
+    canvas.height = video.videoHeight;
+    // The preview is mirrored for the front camera; the photo is not
+    canvas.getContext('2d')!.drawImage(video, 0, 0);
+    setStill(canvas.toDataURL('image/jpeg', 0.92));
+  };
+
+  // Countdown tick; captures when it reaches zero
+  useEffect(() => {
+    if (remaining === null) return;
+    if (remaining === 0) {
+      setRemaining(null);
+      grabFrame();
+      return;
+    }
+    const timer = setTimeout(() => setRemaining(remaining - 1), 1000);
+    return () => clearTimeout(timer);
+  }, [remaining]);
+
+  const startCapture = () => {
+    if (countdownSeconds === 0) grabFrame();
+    else setRemaining(countdownSeconds);
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black flex flex-col">
+      <div className="flex items-center justify-between px-4 py-3">
+        <div>
+          <p className="text-white text-sm font-black uppercase tracking-widest">{label}</p>
+          <p className="text-white/60 text-[10px]">{instruction}</p>
+        </div>
+        <button
+          onClick={onClose}
+          className="px-4 py-2 rounded-xl bg-white/10 text-white text-[10px] font-black uppercase tracking-wider hover:bg-white/20 transition-all"
+        >
+          Fechar
+        </button>
+      </div>
+
+      <div className="relative flex-1 min-h-0 overflow-hidden">
+        {/* Kept mounted during review so the stream survives a retake */}
+        <video
+          ref={videoRef}
+          autoPlay
+          playsInline
+          muted
+          className={`absolute inset-0 w-full h-full object-contain ${still ? 'invisible' : ''}`}
+          style={{ transform: facing === 'user' ? 'scaleX(-1)' : undefined }}
+        />
+        {still ? (
+          <img src={still} alt="Foto capturada" className="absolute inset-0 w-full h-full object-contain" />
+        ) : (
+          <>
+            {/* Framing guide */}
+            <svg
+              viewBox="0 0 100 100"
+              preserveAspectRatio="xMidYMid meet"
+              className="absolute inset-0 w-full h-full pointer-events-none"
+              fill="none"
+              stroke="white"
+              strokeOpacity={0.8}
+              strokeWidth={0.6}
+            >
+              {GUIDES[angle]}
+            </svg>
+            {remaining !== null && (
+              <div className="absolute inset-0 flex items-center justify-center pointer-events-none">
+                <span className="text-white text-8xl font-black drop-shadow-lg animate-pulse">{remaining}</span>
+              </div>
+            )}
+          </>
+        )}
+
+        {error && (
+          <div className="absolute inset-0 flex items-center justify-center p-6">
+            <p className="text-white text-sm text-center">{error}</p>
+          </div>
+        )}
+      </div>
+
+      <div className="flex items-center justify-center gap-3 px-4 py-4">
+        {still ? (
+          <>
+            <button
+              onClick={() => setStill(null)}
+              className="flex-1 max-w-[160px] py-3 rounded-2xl bg-white/10 text-white font-black text-[10px] uppercase tracking-wider hover:bg-white/20 transition-all"
+            >
+              Refazer
+            </button>
+            <button
+              onClick={() => onCapture(still)}
+              className="flex-1 max-w-[160px] py-3 rounded-2xl bg-[#57BEB7] text-white font-black text-[10px] uppercase tracking-wider hover:bg-[#48a9a3] shadow-lg transition-all"
+            >
+              Usar Foto
+            </button>
+          </>
+        ) : (
+          <>
+            <select
+              value={countdownSeconds}
+              onChange={(e) => setCountdownSeconds(Number(e.target.value))}
+              disabled={remaining !== null}
+              className="px-2 py-2 rounded-xl bg-white/10 text-white text-[10px] font-bold uppercase"
+            >
+              {COUNTDOWN_OPTIONS.map((s) => (
+                <option key={s} value={s} className="text-black">
+                  {s === 0 ? 'Sem timer' : `${s}s`}
+                </option>
+              ))}
+            </select>
+            <button
+              onClick={startCapture}
+              disabled={!!error || remaining !== null}
+              aria-label="Capturar"
+              className="w-16 h-16 rounded-full border-4 border-white bg-[#57BEB7] hover:bg-[#48a9a3] disabled:opacity-40 transition-all"
+            />
+            <button
+              onClick={() => setFacing(facing === 'user' ? 'environment' : 'user')}
+              disabled={remaining !== null}
+              className="px-3 py-2 rounded-xl bg-white/10 text-white text-[10px] font-bold uppercase tracking-wider hover:bg-white/20 transition-all disabled:opacity-40"
+            >
+              Trocar Camera
+            </button>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default CameraCapture;
@@ -1,52 +1,200 @@
 import React, { useRef, useState, useEffect, useCallback } from 'react';
-import type { DrawingCanvasProps } from '../types';
+import {
+  EMPTY_HISTORY,
+  findActiveHairline,
+  isHistoryBlank,
+  renderActions,
+  renderHairline,
+  renderStroke,
+} from '../services/drawing';
+import { detectHairEdge } from '../services/hairSampler';
+import { measureMaskPixels, suggestSymmetryAxis } from '../services/imageUtils';
+import {
+  CALIBRATION_PRESETS,
+  DEFAULT_DENSITY_RANGE,
+  estimateGrafts,
+  formatArea,
+  formatGrafts,
+  maskAreaCm2,
+} from '../services/measurement';
+import {
+  centerOn,
+  clampView,
+  distance,
+  IDENTITY_VIEW,
+  MAX_ZOOM,
+  midpoint,
+  MIN_ZOOM,
+  zoomAt,
+  type ViewTransform,
+} from '../services/viewport';
+import type { Calibration, DrawingCanvasProps, DrawingHistory, HairlineAction, Point, StrokeAction } from '../types';
+import CalibrationEditor from './CalibrationEditor';
+import HairlineEditor from './HairlineEditor';
+
+type DrawMode = 'brush' | 'hairline' | 'calibrate' | 'sample';
+
+/** Calibration being placed; `presetId` is 'custom' for a typed length */
+interface CalibrationDraft {
+  points: Point[];
+  presetId: string;
+  lengthMm: number;
+}
+
+/** Hairline being placed or edited, not yet in the history */
+type HairlineDraft = Omit<HairlineAction, 'type' | 'color'>;
+
+/** Fill depth of a new hairline where no hair is detected, as a fraction of the photo height */
+const DEFAULT_HAIRLINE_DEPTH = 0.15;
+
+/** Quiet time after the last edit before the photo is scanned for the hair edge */
+const HAIR_EDGE_DEBOUNCE_MS = 250;
+
+/** Whether the fill of the hairline being edited reaches detected hair */
+type HairEdgeStatus = 'detecting' | 'found' | 'missing';
+
+const MINIMAP_WIDTH = 96;
+
+/** Pan (space-drag / middle button) or two-finger pinch in progress */
+type ViewGesture =
+  | { type: 'pan'; start: Point; view: ViewTransform }
+  | { type: 'pinch'; distance: number; mid: Point; view: ViewTransform };
 
 const DrawingCanvas: React.FC<DrawingCanvasProps> = ({
   photoDataUrl,
+  history: initialHistory,
+  onHistoryChange,
   onDrawingComplete,
   width: displayWidth = 500,
   brushColor = 'rgba(255, 0, 0, 0.5)', // Semi-transparent red for masking
+  symmetry = false,
+  calibration = null,
+  onCalibrationChange,
+  interpupillary = false,
+  densityRange = DEFAULT_DENSITY_RANGE,
   initialBrushSize = 20, // Larger brush for painting areas
+  onPickHair,
+  hairSample = null,
 }) => {
   const containerRef = useRef<HTMLDivElement>(null);
+  const viewportRef = useRef<HTMLDivElement>(null);
   const canvasRef = useRef<HTMLCanvasElement>(null);
+  // Paint stroke in progress, drawn once over the committed layer
+  const liveCanvasRef = useRef<HTMLCanvasElement>(null);
   const photoRef = useRef<HTMLImageElement | null>(null);
+  const strokeRef = useRef<StrokeAction | null>(null);
+  const pointersRef = useRef(new Map<number, Point>());
+  const gestureRef = useRef<ViewGesture | null>(null);
 
   const [isDrawing, setIsDrawing] = useState(false);
+  // In image pixels, so a stroke covers the same hair at any zoom level
   const [brushSize, setBrushSize] = useState(initialBrushSize);
   const [isEraser, setIsEraser] = useState(false);
   const [photoLoaded, setPhotoLoaded] = useState(false);
   const [canvasDims, setCanvasDims] = useState({ w: displayWidth, h: displayWidth });
+  const [history, setHistory] = useState<DrawingHistory>(initialHistory ?? EMPTY_HISTORY);
+  const [mode, setMode] = useState<DrawMode>('brush');
+  const [hairlineDraft, setHairlineDraft] = useState<HairlineDraft | null>(null);
+  const [hairEdgeStatus, setHairEdgeStatus] = useState<HairEdgeStatus>('missing');
+  const [calibrationDraft, setCalibrationDraft] = useState<CalibrationDraft | null>(null);
+  // Painted pixels of the committed layer, for the live area estimate
+  const [maskPixels, setMaskPixels] = useState(0);
+  const [view, setView] = useState<ViewTransform>(IDENTITY_VIEW);
+  const [spaceHeld, setSpaceHeld] = useState(false);
+  // Brush outline under the pointer, in image pixels
+  const [cursor, setCursor] = useState<Point | null>(null);
+  const [symmetryOn, setSymmetryOn] = useState(false);
+  // Mirror axis x in image pixels (suggested the first time symmetry is enabled)
+  const [symmetryAxis, setSymmetryAxis] = useState<number | null>(null);
+  // One-shot: the next stroke is not mirrored
+  const [breakSymmetry, setBreakSymmetry] = useState(false);
+  const axisDragRef = useRef(false);
 
   // Load photo and set canvas dimensions
   useEffect(() => {
     const img = new Image();
     img.onload = () => {
       photoRef.current = img;
-      const aspect = img.naturalHeight / img.naturalWidth;
       const w = img.naturalWidth;
       const h = img.naturalHeight;
       setCanvasDims({ w, h });
-      setPhotoLoaded(true);
+      // initialBrushSize is in screen pixels at 100% zoom
+      const cssWidth = Math.min(containerRef.current?.offsetWidth || displayWidth, displayWidth);
+      setBrushSize(Math.max(1, Math.round((initialBrushSize * w) / cssWidth)));
+      setView(IDENTITY_VIEW);
 
-      // Configure canvas
-      const canvas = canvasRef.current;
-      if (canvas) {
-        canvas.width = w;
-        canvas.height = h;
-        const ctx = canvas.getContext('2d');
-        if (ctx) {
-          ctx.lineCap = 'round';
-          ctx.lineJoin = 'round';
+      // Configure canvases
+      for (const canvas of [canvasRef.current, liveCanvasRef.current]) {
+        if (canvas) {
+          canvas.width = w;
+          canvas.height = h;
         }
       }
+      setPhotoLoaded(true);
     };
     img.src = photoDataUrl;
   }, [photoDataUrl]);
 
-  // Get canvas coordinates from pointer event (scale from CSS → canvas)
+  // The committed layer is always the replay of the history
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx || !photoLoaded) return;
+    renderActions(ctx, history.actions, canvas.width, canvas.height, hairlineDraft?.id);
+    setMaskPixels(measureMaskPixels(canvas));
+  }, [history, photoLoaded, hairlineDraft?.id]);
+
+  // Preview the hairline fill on the live layer while it is edited
+  useEffect(() => {
+    const live = liveCanvasRef.current;
+    const ctx = live?.getContext('2d');
+    if (!live || !ctx || !photoLoaded) return;
+    ctx.clearRect(0, 0, live.width, live.height);
+    if (hairlineDraft) renderHairline(ctx, { type: 'hairline', ...hairlineDraft, color: brushColor });
+  }, [hairlineDraft, photoLoaded, brushColor]);
+
+  // Fill the hairline up to the existing hair, found again whenever the line changes
+  const draftPoints = hairlineDraft?.points;
+  const draftDirection = hairlineDraft?.direction;
+  useEffect(() => {
+    if (!draftPoints || draftPoints.length < 2 || !draftDirection) {
+      setHairEdgeStatus('missing');
+      return;
+    }
+    let cancelled = false;
+    setHairEdgeStatus('detecting');
+    const timer = setTimeout(() => {
+      detectHairEdge(photoDataUrl, { points: draftPoints, direction: draftDirection })
+        .catch((err) => {
+          console.warn('[Hairline] Falha ao detectar o cabelo:', err);
+          return null;
+        })
+        .then((edge) => {
+          if (cancelled) return;
+          setHairlineDraft((prev) => (prev ? { ...prev, edge: edge ?? undefined } : prev));
+          setHairEdgeStatus(edge ? 'found' : 'missing');
+        });
+    }, HAIR_EDGE_DEBOUNCE_MS);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [draftPoints, draftDirection, photoDataUrl]);
+
+  // Report every change (but not the initial value) to the parent
+  const historyReported = useRef(false);
+  useEffect(() => {
+    if (!historyReported.current) {
+      historyReported.current = true;
+      return;
+    }
+    onHistoryChange?.(history);
+  }, [history]);
+
+  // Get canvas coordinates from pointer event (scale from CSS → canvas).
+  // getBoundingClientRect includes the zoom/pan transform, so this holds at any zoom.
   const getCanvasCoords = useCallback(
-    (e: React.PointerEvent<HTMLCanvasElement>) => {
+    (e: { clientX: number; clientY: number }) => {
       const canvas = canvasRef.current;
       if (!canvas) return { x: 0, y: 0 };
       const rect = canvas.getBoundingClientRect();
@@ -60,72 +208,355 @@ const DrawingCanvas: React.FC<DrawingCanvasProps> = ({
     []
   );
 
+  /** Show the in-progress stroke: paint on the live layer, erase in place */
+  const drawLiveStroke = useCallback((stroke: StrokeAction) => {
+    if (stroke.erase) {
+      const ctx = canvasRef.current?.getContext('2d');
+      if (ctx) renderStroke(ctx, stroke);
+      return;
+    }
+    const live = liveCanvasRef.current;
+    const ctx = live?.getContext('2d');
+    if (!live || !ctx) return;
+    ctx.clearRect(0, 0, live.width, live.height);
+    renderStroke(ctx, stroke);
+  }, []);
+
   const handlePointerDown = useCallback(
     (e: React.PointerEvent<HTMLCanvasElement>) => {
       e.preventDefault();
       const canvas = canvasRef.current;
       if (!canvas) return;
-      const ctx = canvas.getContext('2d');
-      if (!ctx) return;
+
+      // Hair colour picker: one click, then back to the brush
+      if (mode === 'sample') {
+        onPickHair?.(getCanvasCoords(e));
+        setMode('brush');
+        return;
+      }
 
       setIsDrawing(true);
       canvas.setPointerCapture(e.pointerId);
 
-      const { x, y } = getCanvasCoords(e);
-      ctx.beginPath();
-      ctx.moveTo(x, y);
-
-      if (isEraser) {
-        ctx.globalCompositeOperation = 'destination-out';
-        ctx.lineWidth = brushSize * 2;
-      } else {
-        ctx.globalCompositeOperation = 'source-over';
-        ctx.strokeStyle = brushColor;
-        ctx.lineWidth = brushSize;
-      }
-
-      // Draw a dot for single clicks
-      ctx.lineTo(x + 0.1, y + 0.1);
-      ctx.stroke();
+      strokeRef.current = {
+        type: 'stroke',
+        points: [getCanvasCoords(e)],
+        size: isEraser ? brushSize * 2 : brushSize,
+        color: brushColor,
+        erase: isEraser,
+        // Alt held (or "Quebrar Simetria" armed) draws this stroke on one side only
+        mirrorX: symmetryOn && symmetryAxis !== null && !breakSymmetry && !e.altKey ? symmetryAxis : undefined,
+      };
+      if (breakSymmetry) setBreakSymmetry(false);
+      drawLiveStroke(strokeRef.current);
     },
-    [getCanvasCoords, isEraser, brushSize, brushColor]
+    [getCanvasCoords, drawLiveStroke, isEraser, brushSize, brushColor, symmetryOn, symmetryAxis, breakSymmetry, mode, onPickHair]
   );
 
   const handlePointerMove = useCallback(
     (e: React.PointerEvent<HTMLCanvasElement>) => {
-      if (!isDrawing) return;
-      const canvas = canvasRef.current;
-      if (!canvas) return;
-      const ctx = canvas.getContext('2d');
-      if (!ctx) return;
-
-      const { x, y } = getCanvasCoords(e);
-      ctx.lineTo(x, y);
-      ctx.stroke();
+      const stroke = strokeRef.current;
+      if (!isDrawing || !stroke) return;
+      stroke.points.push(getCanvasCoords(e));
+      drawLiveStroke(stroke);
     },
-    [isDrawing, getCanvasCoords]
+    [isDrawing, getCanvasCoords, drawLiveStroke]
   );
 
-  const handlePointerUp = useCallback(() => {
+  /** Drop the stroke in progress (a second finger turned it into a pinch) */
+  const cancelStroke = () => {
+    if (!strokeRef.current) return;
+    strokeRef.current = null;
     setIsDrawing(false);
+    const live = liveCanvasRef.current;
+    live?.getContext('2d')?.clearRect(0, 0, live.width, live.height);
+    // Erasing works in place on the committed layer, so replay it
     const canvas = canvasRef.current;
-    if (!canvas) return;
-    const ctx = canvas.getContext('2d');
-    if (ctx) {
-      ctx.closePath();
-      ctx.globalCompositeOperation = 'source-over';
+    const ctx = canvas?.getContext('2d');
+    if (canvas && ctx) renderActions(ctx, history.actions, canvas.width, canvas.height, hairlineDraft?.id);
+  };
+
+  const handlePointerUp = useCallback(() => {
+    setIsDrawing(false);
+    const stroke = strokeRef.current;
+    strokeRef.current = null;
+
+    const live = liveCanvasRef.current;
+    live?.getContext('2d')?.clearRect(0, 0, live.width, live.height);
+
+    if (stroke) {
+      setHistory((prev) => ({ actions: [...prev.actions, stroke], redo: [] }));
     }
   }, []);
 
+  // --- History ---
+
+  const undo = useCallback(() => {
+    setHistory((prev) => {
+      if (prev.actions.length === 0) return prev;
+      const last = prev.actions[prev.actions.length - 1];
+      return { actions: prev.actions.slice(0, -1), redo: [...prev.redo, last] };
+    });
+  }, []);
+
+  const redo = useCallback(() => {
+    setHistory((prev) => {
+      if (prev.redo.length === 0) return prev;
+      const next = prev.redo[prev.redo.length - 1];
+      return { actions: [...prev.actions, next], redo: prev.redo.slice(0, -1) };
+    });
+  }, []);
+
   const clearAll = () => {
-    const canvas = canvasRef.current;
-    if (!canvas) return;
-    const ctx = canvas.getContext('2d');
-    if (ctx) {
-      ctx.clearRect(0, 0, canvas.width, canvas.height);
+    if (hairlineDraft || isHistoryBlank(history)) return;
+    setHistory((prev) => ({ actions: [...prev.actions, { type: 'clear' }], redo: [] }));
+  };
+
+  // Ctrl+Z / Ctrl+Shift+Z (and Ctrl+Y), Cmd on macOS
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || hairlineDraft) return;
+      const target = e.target as HTMLElement | null;
+      if (target?.closest('input, textarea, select, [contenteditable="true"]')) return;
+
+      const key = e.key.toLowerCase();
+      if (key === 'z' && !e.shiftKey) {
+        e.preventDefault();
+        undo();
+      } else if ((key === 'z' && e.shiftKey) || key === 'y') {
+        e.preventDefault();
+        redo();
+      }
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, [undo, redo, hairlineDraft]);
+
+  // --- Zoom & pan ---
+
+  const toViewportCoords = (e: { clientX: number; clientY: number }): Point => {
+    const rect = viewportRef.current!.getBoundingClientRect();
+    return { x: e.clientX - rect.left, y: e.clientY - rect.top };
+  };
+
+  const getViewportSize = () => {
+    const rect = viewportRef.current?.getBoundingClientRect();
+    return { w: rect?.width || 1, h: rect?.height || 1 };
+  };
+
+  const zoomBy = (factor: number, anchor?: Point) => {
+    const { w, h } = getViewportSize();
+    setView((prev) => {
+      const zoom = Math.min(MAX_ZOOM, Math.max(MIN_ZOOM, prev.zoom * factor));
+      return clampView(zoomAt(prev, zoom, anchor ?? { x: w / 2, y: h / 2 }), w, h);
+    });
+  };
+
+  // Wheel zoom around the pointer (native listener: React's onWheel is passive)
+  useEffect(() => {
+    const viewport = viewportRef.current;
+    if (!viewport || !photoLoaded) return;
+    const onWheel = (e: WheelEvent) => {
+      e.preventDefault();
+      zoomBy(Math.exp(-e.deltaY * 0.0015), toViewportCoords(e));
+    };
+    viewport.addEventListener('wheel', onWheel, { passive: false });
+    return () => viewport.removeEventListener('wheel', onWheel);
+  }, [photoLoaded]);
+
+  // Hold space to pan with the mouse
+  useEffect(() => {
+    const isTyping = (e: KeyboardEvent) =>
+      (e.target as HTMLElement | null)?.closest('input, textarea, select, [contenteditable="true"]');
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (e.code !== 'Space' || isTyping(e)) return;
+      e.preventDefault();
+      setSpaceHeld(true);
+    };
+    const onKeyUp = (e: KeyboardEvent) => {
+      if (e.code === 'Space') setSpaceHeld(false);
+    };
+    window.addEventListener('keydown', onKeyDown);
+    window.addEventListener('keyup', onKeyUp);
+    return () => {
+      window.removeEventListener('keydown', onKeyDown);
+      window.removeEventListener('keyup', onKeyUp);
+    };
+  }, []);
+
+  // Capture phase: gestures win over the drawing/hairline handlers below
+  const handleGestureDown = (e: React.PointerEvent<HTMLDivElement>) => {
+    const pointers = pointersRef.current;
+    // A mouse has a single pointer; drop any release we missed outside the viewport
+    if (e.pointerType === 'mouse') pointers.clear();
+    pointers.set(e.pointerId, toViewportCoords(e));
+
+    if (pointers.size === 2) {
+      const [a, b] = [...pointers.values()];
+      cancelStroke();
+      gestureRef.current = { type: 'pinch', distance: distance(a, b), mid: midpoint(a, b), view };
+      e.stopPropagation();
+    } else if (pointers.size === 1 && (spaceHeld || e.button === 1)) {
+      e.preventDefault();
+      e.stopPropagation();
+      viewportRef.current?.setPointerCapture(e.pointerId);
+      gestureRef.current = { type: 'pan', start: toViewportCoords(e), view };
+    }
+  };
+
+  const handleGestureMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    const pointers = pointersRef.current;
+    if (pointers.has(e.pointerId)) pointers.set(e.pointerId, toViewportCoords(e));
+
+    const gesture = gestureRef.current;
+    if (!gesture) return;
+    e.stopPropagation();
+    const { w, h } = getViewportSize();
+
+    if (gesture.type === 'pan') {
+      const p = toViewportCoords(e);
+      setView(clampView(
+        { ...gesture.view, x: gesture.view.x + p.x - gesture.start.x, y: gesture.view.y + p.y - gesture.start.y },
+        w,
+        h
+      ));
+    } else if (pointers.size >= 2) {
+      const [a, b] = [...pointers.values()];
+      const mid = midpoint(a, b);
+      const zoom = Math.min(MAX_ZOOM, Math.max(MIN_ZOOM, (gesture.view.zoom * distance(a, b)) / gesture.distance));
+      // Keep the stage point that was under the fingers under them
+      const anchor = {
+        x: (gesture.mid.x - gesture.view.x) / gesture.view.zoom,
+        y: (gesture.mid.y - gesture.view.y) / gesture.view.zoom,
+      };
+      setView(clampView({ zoom, x: mid.x - anchor.x * zoom, y: mid.y - anchor.y * zoom }, w, h));
     }
   };
 
+  const handleGestureUp = (e: React.PointerEvent<HTMLDivElement>) => {
+    pointersRef.current.delete(e.pointerId);
+    const gesture = gestureRef.current;
+    if (!gesture) return;
+    e.stopPropagation();
+    if (gesture.type === 'pan' || pointersRef.current.size < 2) gestureRef.current = null;
+  };
+
+  const handleMinimapPointer = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (e.type === 'pointermove' && e.buttons === 0) return;
+    e.stopPropagation();
+    const rect = e.currentTarget.getBoundingClientRect();
+    const { w, h } = getViewportSize();
+    const stagePoint = {
+      x: ((e.clientX - rect.left) / rect.width) * w,
+      y: ((e.clientY - rect.top) / rect.height) * h,
+    };
+    setView((prev) => clampView(centerOn(prev, stagePoint, w, h), w, h));
+  };
+
+  // --- Symmetry ---
+
+  const suggestAxis = () => {
+    if (photoRef.current) setSymmetryAxis(suggestSymmetryAxis(photoRef.current));
+  };
+
+  const toggleSymmetry = () => {
+    if (!symmetryOn && symmetryAxis === null) suggestAxis();
+    setSymmetryOn(!symmetryOn);
+    setBreakSymmetry(false);
+  };
+
+  const handleAxisPointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
+    e.preventDefault();
+    e.stopPropagation();
+    e.currentTarget.setPointerCapture(e.pointerId);
+    axisDragRef.current = true;
+  };
+
+  const handleAxisPointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (!axisDragRef.current) return;
+    e.stopPropagation();
+    setSymmetryAxis(Math.min(canvasDims.w, Math.max(0, getCanvasCoords(e).x)));
+  };
+
+  const handleAxisPointerUp = () => {
+    axisDragRef.current = false;
+  };
+
+  // --- Hairline ---
+
+  /** Edit the current hairline, or start a new one if there is none */
+  const startHairline = () => {
+    const active = findActiveHairline(history.actions);
+    setHairlineDraft(
+      active
+        ? { id: active.id, points: active.points, depth: active.depth, direction: active.direction, edge: active.edge }
+        : {
+            id: `hairline-${Date.now()}`,
+            points: [],
+            depth: Math.round(canvasDims.h * DEFAULT_HAIRLINE_DEPTH),
+            direction: -1,
+          }
+    );
+    setCalibrationDraft(null);
+    setMode('hairline');
+  };
+
+  /** Back to the brush, dropping any hairline or calibration draft */
+  const selectBrush = () => {
+    setHairlineDraft(null);
+    setCalibrationDraft(null);
+    setMode('brush');
+  };
+
+  const applyHairline = () => {
+    if (!hairlineDraft || hairlineDraft.points.length < 2 || hairEdgeStatus === 'detecting') return;
+    const action: HairlineAction = { type: 'hairline', ...hairlineDraft, color: brushColor };
+    setHistory((prev) => ({ actions: [...prev.actions, action], redo: [] }));
+    selectBrush();
+  };
+
+  const updateHairline = (patch: Partial<HairlineDraft>) => {
+    setHairlineDraft((prev) => (prev ? { ...prev, ...patch } : prev));
+  };
+
+  // --- Calibration ---
+
+  const calibrationPresets = CALIBRATION_PRESETS.filter((p) => interpupillary || p.kind !== 'ipd');
+
+  /** Edit the saved calibration, or start with the most likely reference */
+  const startCalibration = () => {
+    const preset = calibration
+      ? calibrationPresets.find((p) => p.kind === calibration.kind && p.lengthMm === calibration.lengthMm)
+      : calibrationPresets.find((p) => p.kind === (interpupillary ? 'ipd' : 'reference'));
+    setCalibrationDraft({
+      points: calibration ? [...calibration.points] : [],
+      presetId: preset?.id ?? 'custom',
+      lengthMm: calibration?.lengthMm ?? preset?.lengthMm ?? 10,
+    });
+    setHairlineDraft(null);
+    setMode('calibrate');
+  };
+
+  const saveCalibration = () => {
+    if (!calibrationDraft || calibrationDraft.points.length !== 2 || calibrationDraft.lengthMm <= 0) return;
+    const preset = CALIBRATION_PRESETS.find((p) => p.id === calibrationDraft.presetId);
+    const [a, b] = calibrationDraft.points;
+    onCalibrationChange?.({ kind: preset?.kind ?? 'reference', points: [a, b], lengthMm: calibrationDraft.lengthMm });
+    selectBrush();
+  };
+
+  const removeCalibration = () => {
+    onCalibrationChange?.(null);
+    selectBrush();
+  };
+
+  const selectCalibrationPreset = (presetId: string) => {
+    const preset = CALIBRATION_PRESETS.find((p) => p.id === presetId);
+    setCalibrationDraft((prev) =>
+      prev ? { ...prev, presetId, lengthMm: preset?.lengthMm ?? prev.lengthMm } : prev
+    );
+  };
+
   const confirmDrawing = () => {
     const canvas = canvasRef.current;
     const photo = photoRef.current;
@@ -144,7 +575,7 @@ const DrawingCanvas: React.FC<DrawingCanvasProps> = ({
     // PNG preserves the green markings without JPEG color degradation
     const compositeDataUrl = offscreen.toDataURL('image/png');
 
-    onDrawingComplete(drawingDataUrl, compositeDataUrl);
+    onDrawingComplete(drawingDataUrl, compositeDataUrl, measureMaskPixels(canvas));
   };
 
   // Calculate CSS display dimensions
@@ -152,93 +583,509 @@ const DrawingCanvas: React.FC<DrawingCanvasProps> = ({
   const actualDisplayWidth = Math.min(containerWidth, displayWidth);
   const displayAspect = canvasDims.h / canvasDims.w;
   const displayHeight = actualDisplayWidth * displayAspect;
+  const imagePxPerCssPx = canvasDims.w / actualDisplayWidth;
+  const strokeSize = isEraser ? brushSize * 2 : brushSize;
+  const maxBrushSize = Math.max(10, Math.round(Math.max(canvasDims.w, canvasDims.h) * 0.1));
+  const isEditingHairline = mode === 'hairline' && hairlineDraft !== null;
+  const isCalibrating = mode === 'calibrate' && calibrationDraft !== null;
+  const areaCm2 = maskAreaCm2(maskPixels, calibration);
 
   return (
     <div ref={containerRef} className="w-full space-y-3">
       {/* Canvas area */}
       <div
-        className="relative rounded-xl overflow-hidden border-2 border-[#57BEB7]/30 shadow-md mx-auto"
+        className="relative mx-auto"
         style={{ width: actualDisplayWidth, height: photoLoaded ? displayHeight : actualDisplayWidth }}
       >
-        {/* Background photo */}
-        {photoLoaded && (
-          <img
-            src={photoDataUrl}
-            alt="Foto para desenho"
-            className="absolute inset-0 w-full h-full object-contain pointer-events-none"
-            draggable={false}
-          />
-        )}
+        {/* Viewport: clips the zoomed stage and handles zoom/pan gestures */}
+        <div
+          ref={viewportRef}
+          className="absolute inset-0 rounded-xl overflow-hidden border-2 border-[#57BEB7]/30 shadow-md"
+          style={{ touchAction: 'none', cursor: spaceHeld ? 'grab' : undefined }}
+          onPointerDownCapture={handleGestureDown}
+          onPointerMoveCapture={handleGestureMove}
+          onPointerUpCapture={handleGestureUp}
+          onPointerCancelCapture={handleGestureUp}
+        >
+          {/* Stage: photo and layers at 100% size, zoomed by a CSS transform */}
+          <div
+            className="absolute top-0 left-0"
+            style={{
+              width: actualDisplayWidth,
+              height: photoLoaded ? displayHeight : actualDisplayWidth,
+              transform: `translate(${view.x}px, ${view.y}px) scale(${view.zoom})`,
+              transformOrigin: '0 0',
+            }}
+          >
+            {/* Background photo */}
+            {photoLoaded && (
+              <img
+                src={photoDataUrl}
+                alt="Foto para desenho"
+                className="absolute inset-0 w-full h-full object-contain pointer-events-none"
+                draggable={false}
+              />
+            )}
 
-        {/* Drawing canvas overlay */}
-        <canvas
-          ref={canvasRef}
-          className="absolute inset-0 w-full h-full cursor-crosshair"
-          style={{ touchAction: 'none' }}
-          onPointerDown={handlePointerDown}
-          onPointerMove={handlePointerMove}
-          onPointerUp={handlePointerUp}
-          onPointerLeave={handlePointerUp}
-        />
-
-        {!photoLoaded && (
-          <div className="flex items-center justify-center h-full">
-            <div className="w-8 h-8 border-3 border-[#57BEB7]/20 border-t-[#57BEB7] rounded-full animate-spin" />
-          </div>
-        )}
-      </div>
+            {/* Drawing canvas overlay */}
+            <canvas
+              ref={canvasRef}
+              className={`absolute inset-0 w-full h-full ${spaceHeld ? '' : mode === 'sample' ? 'cursor-cell' : 'cursor-crosshair'}`}
+              style={{ touchAction: 'none' }}
+              onPointerDown={handlePointerDown}
+              onPointerMove={(e) => {
+                handlePointerMove(e);
+                if (e.pointerType === 'mouse') setCursor(getCanvasCoords(e));
+              }}
+              onPointerUp={handlePointerUp}
+              onPointerLeave={() => {
+                handlePointerUp();
+                setCursor(null);
+              }}
+            />
 
-      {/* Controls */}
-      {photoLoaded && (
-        <div className="flex flex-col gap-3">
-          {/* Brush size slider */}
-          <div className="flex items-center gap-3 px-2">
-            <span className="text-[10px] font-bold text-gray-500 uppercase tracking-wider whitespace-nowrap">
-              Tamanho
-            </span>
-            <input
-              type="range"
-              min="5"
-              max="60"
-              value={brushSize}
-              onChange={(e) => setBrushSize(Number(e.target.value))}
-              className="flex-1 accent-[#57BEB7]"
+            {/* Stroke in progress (above the committed marks, not interactive) */}
+            <canvas
+              ref={liveCanvasRef}
+              className="absolute inset-0 w-full h-full pointer-events-none"
             />
+
+            {/* Symmetry axis: drag to move it */}
+            {symmetryOn && symmetryAxis !== null && mode === 'brush' && (
+              <div
+                className="absolute top-0 bottom-0 flex justify-center cursor-ew-resize"
+                style={{
+                  left: symmetryAxis / imagePxPerCssPx - 6 / view.zoom,
+                  width: 12 / view.zoom,
+                  touchAction: 'none',
+                }}
+                title="Arraste para ajustar o eixo"
+                onPointerDown={handleAxisPointerDown}
+                onPointerMove={handleAxisPointerMove}
+                onPointerUp={handleAxisPointerUp}
+                onPointerCancel={handleAxisPointerUp}
+              >
+                <div
+                  className="h-full"
+                  style={{ borderLeft: `${1.5 / view.zoom}px dashed rgba(29, 73, 152, 0.9)` }}
+                />
+              </div>
+            )}
+
+            {/* Brush footprint under the mouse */}
+            {cursor && mode === 'brush' && !spaceHeld && (
+              <div
+                className="absolute rounded-full pointer-events-none"
+                style={{
+                  left: (cursor.x - strokeSize / 2) / imagePxPerCssPx,
+                  top: (cursor.y - strokeSize / 2) / imagePxPerCssPx,
+                  width: strokeSize / imagePxPerCssPx,
+                  height: strokeSize / imagePxPerCssPx,
+                  border: `${1 / view.zoom}px ${isEraser ? 'dashed' : 'solid'} rgba(255, 255, 255, 0.9)`,
+                }}
+              />
+            )}
+
+            {/* Where the hair colour was picked */}
+            {hairSample?.point && (
+              <div
+                className="absolute rounded-full pointer-events-none border-white shadow"
+                style={{
+                  left: hairSample.point.x / imagePxPerCssPx - 7 / view.zoom,
+                  top: hairSample.point.y / imagePxPerCssPx - 7 / view.zoom,
+                  width: 14 / view.zoom,
+                  height: 14 / view.zoom,
+                  borderWidth: 2 / view.zoom,
+                  backgroundColor: hairSample.palette[Math.floor(hairSample.palette.length / 2)],
+                }}
+              />
+            )}
+
+            {/* Hairline control points (captures the pointer while editing) */}
+            {photoLoaded && isEditingHairline && (
+              <HairlineEditor
+                width={canvasDims.w}
+                height={canvasDims.h}
+                points={hairlineDraft.points}
+                depth={hairlineDraft.depth}
+                direction={hairlineDraft.direction}
+                edge={hairlineDraft.edge}
+                handleRadius={(7 * imagePxPerCssPx) / view.zoom}
+                onChange={(points) => updateHairline({ points })}
+              />
+            )}
+
+            {/* Calibration segment (captures the pointer while calibrating) */}
+            {photoLoaded && isCalibrating && (
+              <CalibrationEditor
+                width={canvasDims.w}
+                height={canvasDims.h}
+                points={calibrationDraft.points}
+                handleRadius={(7 * imagePxPerCssPx) / view.zoom}
+                onChange={(points) => setCalibrationDraft((prev) => (prev ? { ...prev, points } : prev))}
+              />
+            )}
+          </div>
+
+          {!photoLoaded && (
+            <div className="flex items-center justify-center h-full">
+              <div className="w-8 h-8 border-3 border-[#57BEB7]/20 border-t-[#57BEB7] rounded-full animate-spin" />
+            </div>
+          )}
+        </div>
+
+        {/* Minimap: visible area while zoomed, click or drag to move it */}
+        {photoLoaded && view.zoom > 1 && (
+          <div
+            className="absolute bottom-2 right-2 rounded-lg overflow-hidden border border-white shadow-md bg-black cursor-pointer"
+            style={{ width: MINIMAP_WIDTH, height: MINIMAP_WIDTH * displayAspect, touchAction: 'none' }}
+            onPointerDown={handleMinimapPointer}
+            onPointerMove={handleMinimapPointer}
+          >
+            <img src={photoDataUrl} alt="" className="w-full h-full object-contain opacity-80" draggable={false} />
             <div
-              className="rounded-full border border-gray-300 flex-shrink-0"
+              className="absolute border-2 border-[#57BEB7] pointer-events-none"
               style={{
-                width: Math.max(12, brushSize * 0.6),
-                height: Math.max(12, brushSize * 0.6),
-                backgroundColor: isEraser ? 'transparent' : brushColor,
-                borderStyle: isEraser ? 'dashed' : 'solid',
+                left: `${(-view.x / view.zoom / actualDisplayWidth) * 100}%`,
+                top: `${(-view.y / view.zoom / displayHeight) * 100}%`,
+                width: `${100 / view.zoom}%`,
+                height: `${100 / view.zoom}%`,
               }}
             />
           </div>
+        )}
+      </div>
 
-          {/* Action buttons */}
+      {/* Controls */}
+      {photoLoaded && (
+        <div className="flex flex-col gap-3">
+          {/* Tool */}
           <div className="flex gap-2">
             <button
-              onClick={() => setIsEraser(!isEraser)}
-              className={`flex-1 py-2.5 rounded-xl font-bold text-[10px] uppercase tracking-wider transition-all ${isEraser
+              onClick={selectBrush}
+              className={`flex-1 py-2.5 rounded-xl font-bold text-[10px] uppercase tracking-wider transition-all ${mode === 'brush'
                 ? 'bg-[#1D4998] text-white shadow-md'
                 : 'bg-gray-100 text-gray-600 hover:bg-gray-200'
                 }`}
             >
-              {isEraser ? 'Borracha Ativa' : 'Borracha'}
+              Pincel
             </button>
             <button
-              onClick={clearAll}
-              className="flex-1 py-2.5 rounded-xl font-bold text-[10px] uppercase tracking-wider bg-gray-100 text-gray-600 hover:bg-red-50 hover:text-red-500 transition-all"
+              onClick={() => mode !== 'hairline' && startHairline()}
+              className={`flex-1 py-2.5 rounded-xl font-bold text-[10px] uppercase tracking-wider transition-all ${mode === 'hairline'
+                ? 'bg-[#1D4998] text-white shadow-md'
+                : 'bg-gray-100 text-gray-600 hover:bg-gray-200'
+                }`}
             >
-              Limpar Tudo
+              Linha Capilar
+            </button>
+            {onCalibrationChange && (
+              <button
+                onClick={() => mode !== 'calibrate' && startCalibration()}
+                className={`flex-1 py-2.5 rounded-xl font-bold text-[10px] uppercase tracking-wider transition-all ${mode === 'calibrate'
+                  ? 'bg-[#1D4998] text-white shadow-md'
+                  : 'bg-gray-100 text-gray-600 hover:bg-gray-200'
+                  }`}
+              >
+                {calibration ? 'Calibrado' : 'Calibrar'}
+              </button>
+            )}
+            {onPickHair && (
+              <button
+                onClick={() => {
+                  selectBrush();
+                  setMode(mode === 'sample' ? 'brush' : 'sample');
+                }}
+                title="Clique no cabelo existente do paciente"
+                className={`flex-1 py-2.5 rounded-xl font-bold text-[10px] uppercase tracking-wider transition-all ${mode === 'sample'
+                  ? 'bg-[#1D4998] text-white shadow-md'
+                  : 'bg-gray-100 text-gray-600 hover:bg-gray-200'
+                  }`}
+              >
+                Cor do Cabelo
+              </button>
+            )}
+          </div>
+          {mode === 'sample' && (
+            <p className="text-[10px] text-gray-500 text-center">Clique sobre o cabelo existente do paciente.</p>
+          )}
+
+          {/* Treated area and graft estimate */}
+          {mode !== 'calibrate' && (
+            <div className="px-3 py-2 rounded-xl bg-[#57BEB7]/10 text-[10px] text-[#1D4998]">
+              {areaCm2 !== null ? (
+                <span className="font-bold">
+                  Area marcada: {formatArea(areaCm2)} · Estimativa: {formatGrafts(estimateGrafts(areaCm2, densityRange))}
+                  <span className="font-normal text-gray-500">
+                    {' '}({densityRange.min}–{densityRange.max} UF/cm²)
+                  </span>
+                </span>
+              ) : (
+                <span className="text-gray-500">Calibre a foto para medir a area marcada e estimar os enxertos.</span>
+              )}
+            </div>
+          )}
+
+          {/* Symmetry (frontal) */}
+          {symmetry && mode === 'brush' && (
+            <div className="flex flex-col gap-1">
+              <div className="flex gap-2">
+                <button
+                  onClick={toggleSymmetry}
+                  className={`flex-1 py-2.5 rounded-xl font-bold text-[10px] uppercase tracking-wider transition-all ${symmetryOn
+                    ? 'bg-[#1D4998] text-white shadow-md'
+                    : 'bg-gray-100 text-gray-600 hover:bg-gray-200'
+                    }`}
+                >
+                  {symmetryOn ? 'Simetria Ativa' : 'Simetria'}
+                </button>
+                <button
+                  onClick={suggestAxis}
+                  disabled={!symmetryOn}
+                  className="flex-1 py-2.5 rounded-xl font-bold text-[10px] uppercase tracking-wider bg-gray-100 text-gray-600 hover:bg-gray-200 transition-all disabled:opacity-40 disabled:hover:bg-gray-100"
+                >
+                  Sugerir Eixo
+                </button>
+                <button
+                  onClick={() => setBreakSymmetry(!breakSymmetry)}
+                  disabled={!symmetryOn}
+                  title="O proximo traco nao sera espelhado"
+                  className={`flex-1 py-2.5 rounded-xl font-bold text-[10px] uppercase tracking-wider transition-all disabled:opacity-40 ${breakSymmetry
+                    ? 'bg-amber-500 text-white shadow-md'
+                    : 'bg-gray-100 text-gray-600 hover:bg-gray-200 disabled:hover:bg-gray-100'
+                    }`}
+                >
+                  Quebrar Simetria
+                </button>
+              </div>
+              {symmetryOn && (
+                <p className="text-[10px] text-gray-500 px-2">
+                  Arraste a linha tracejada para ajustar o eixo. Segure Alt para um traco sem espelho.
+                </p>
+              )}
+            </div>
+          )}
+
+          {/* Zoom */}
+          <div className="flex items-center gap-2 px-2">
+            <span className="text-[10px] font-bold text-gray-500 uppercase tracking-wider whitespace-nowrap">
+              Zoom
+            </span>
+            <button
+              onClick={() => zoomBy(1 / 1.5)}
+              disabled={view.zoom <= MIN_ZOOM}
+              className="w-8 h-8 rounded-lg font-bold text-sm bg-gray-100 text-gray-600 hover:bg-gray-200 transition-all disabled:opacity-40"
+            >
+              -
+            </button>
+            <span className="text-[10px] font-bold text-gray-600 w-10 text-center">
+              {Math.round(view.zoom * 100)}%
+            </span>
+            <button
+              onClick={() => zoomBy(1.5)}
+              disabled={view.zoom >= MAX_ZOOM}
+              className="w-8 h-8 rounded-lg font-bold text-sm bg-gray-100 text-gray-600 hover:bg-gray-200 transition-all disabled:opacity-40"
+            >
+              +
             </button>
             <button
-              onClick={confirmDrawing}
-              className="flex-1 py-2.5 rounded-xl font-bold text-[10px] uppercase tracking-wider bg-[#57BEB7] text-white hover:bg-[#48a9a3] shadow-md transition-all"
+              onClick={() => setView(IDENTITY_VIEW)}
+              disabled={view.zoom === 1}
+              className="px-3 h-8 rounded-lg font-bold text-[10px] uppercase tracking-wider bg-gray-100 text-gray-600 hover:bg-gray-200 transition-all disabled:opacity-40"
             >
-              Confirmar
+              Ajustar
             </button>
+            <span className="text-[10px] text-gray-400 ml-auto hidden sm:inline">
+              Roda do mouse ou pinca para zoom, espaco + arrastar para mover
+            </span>
           </div>
+
+          {isCalibrating ? (
+            <>
+              <p className="text-[10px] text-gray-500 px-2">
+                {interpupillary
+                  ? 'Clique nas extremidades da referencia (moeda, regua) ou no centro de cada pupila.'
+                  : 'Clique nas duas extremidades da referencia (moeda ou regua) visivel na foto.'}
+              </p>
+
+              <div className="flex items-center gap-2 px-2">
+                <select
+                  value={calibrationDraft.presetId}
+                  onChange={(e) => selectCalibrationPreset(e.target.value)}
+                  className="flex-1 px-2 py-1.5 rounded-lg bg-gray-100 text-[10px] font-bold text-[#1D4998]"
+                >
+                  {calibrationPresets.map((p) => (
+                    <option key={p.id} value={p.id}>
+                      {p.label}
+                    </option>
+                  ))}
+                  <option value="custom">Outra medida</option>
+                </select>
+                <input
+                  type="number"
+                  min="1"
+                  step="0.5"
+                  value={calibrationDraft.lengthMm}
+                  onChange={(e) =>
+                    setCalibrationDraft((prev) => (prev ? { ...prev, lengthMm: Number(e.target.value) } : prev))
+                  }
+                  className="w-16 px-2 py-1.5 rounded-lg bg-gray-100 text-[10px] font-bold text-[#1D4998] text-right"
+                />
+                <span className="text-[10px] font-bold text-gray-500">mm</span>
+              </div>
+
+              <div className="flex gap-2">
+                {calibration && (
+                  <button
+                    onClick={removeCalibration}
+                    className="flex-1 py-2.5 rounded-xl font-bold text-[10px] uppercase tracking-wider bg-gray-100 text-gray-600 hover:bg-red-50 hover:text-red-500 transition-all"
+                  >
+                    Remover
+                  </button>
+                )}
+                <button
+                  onClick={selectBrush}
+                  className="flex-1 py-2.5 rounded-xl font-bold text-[10px] uppercase tracking-wider bg-gray-100 text-gray-600 hover:bg-gray-200 transition-all"
+                >
+                  Cancelar
+                </button>
+                <button
+                  onClick={saveCalibration}
+                  disabled={calibrationDraft.points.length !== 2 || calibrationDraft.lengthMm <= 0}
+                  className="flex-1 py-2.5 rounded-xl font-bold text-[10px] uppercase tracking-wider bg-[#57BEB7] text-white hover:bg-[#48a9a3] shadow-md transition-all disabled:opacity-40 disabled:hover:bg-[#57BEB7]"
+                >
+                  Salvar Calibracao
+                </button>
+              </div>
+            </>
+          ) : isEditingHairline ? (
+            <>
+              <p className="text-[10px] text-gray-500 px-2">
+                Clique para adicionar pontos, arraste para ajustar e clique duas vezes para remover.
+              </p>
+              {hairlineDraft.points.length >= 2 && (
+                <p className="text-[10px] text-gray-400 px-2">
+                  {hairEdgeStatus === 'detecting'
+                    ? 'Procurando o cabelo existente...'
+                    : hairEdgeStatus === 'found'
+                      ? 'Preenchido da linha ate o cabelo existente.'
+                      : 'Cabelo existente nao detectado: ajuste a profundidade do preenchimento.'}
+                </p>
+              )}
+
+              {/* Fill depth, only used where no hair is detected */}
+              {hairEdgeStatus === 'missing' && (
+                <div className="flex items-center gap-3 px-2">
+                  <span className="text-[10px] font-bold text-gray-500 uppercase tracking-wider whitespace-nowrap">
+                    Profundidade
+                  </span>
+                  <input
+                    type="range"
+                    min={Math.round(canvasDims.h * 0.02)}
+                    max={Math.round(canvasDims.h * 0.5)}
+                    value={hairlineDraft.depth}
+                    onChange={(e) => updateHairline({ depth: Number(e.target.value) })}
+                    className="flex-1 accent-[#57BEB7]"
+                  />
+                </div>
+              )}
+
+              <div className="flex gap-2">
+                <button
+                  onClick={() => updateHairline({ direction: hairlineDraft.direction === -1 ? 1 : -1 })}
+                  className="flex-1 py-2.5 rounded-xl font-bold text-[10px] uppercase tracking-wider bg-gray-100 text-gray-600 hover:bg-gray-200 transition-all"
+                >
+                  {hairlineDraft.direction === -1 ? 'Preencher Acima' : 'Preencher Abaixo'}
+                </button>
+                <button
+                  onClick={selectBrush}
+                  className="flex-1 py-2.5 rounded-xl font-bold text-[10px] uppercase tracking-wider bg-gray-100 text-gray-600 hover:bg-red-50 hover:text-red-500 transition-all"
+                >
+                  Descartar
+                </button>
+                <button
+                  onClick={applyHairline}
+                  disabled={hairlineDraft.points.length < 2 || hairEdgeStatus === 'detecting'}
+                  className="flex-1 py-2.5 rounded-xl font-bold text-[10px] uppercase tracking-wider bg-[#57BEB7] text-white hover:bg-[#48a9a3] shadow-md transition-all disabled:opacity-40 disabled:hover:bg-[#57BEB7]"
+                >
+                  Aplicar Linha
+                </button>
+              </div>
+            </>
+          ) : (
+            <>
+              {/* Brush size slider */}
+              <div className="flex items-center gap-3 px-2">
+                <span className="text-[10px] font-bold text-gray-500 uppercase tracking-wider whitespace-nowrap">
+                  Tamanho
+                </span>
+                <input
+                  type="range"
+                  min="1"
+                  max={maxBrushSize}
+                  value={brushSize}
+                  onChange={(e) => setBrushSize(Number(e.target.value))}
+                  className="flex-1 accent-[#57BEB7]"
+                />
+                <span className="text-[10px] font-bold text-gray-600 w-12 text-right">{brushSize}px</span>
+                {/* Actual size on screen at the current zoom */}
+                <div
+                  className="rounded-full border border-gray-300 flex-shrink-0"
+                  style={{
+                    width: Math.min(40, Math.max(6, (strokeSize / imagePxPerCssPx) * view.zoom)),
+                    height: Math.min(40, Math.max(6, (strokeSize / imagePxPerCssPx) * view.zoom)),
+                    backgroundColor: isEraser ? 'transparent' : brushColor,
+                    borderStyle: isEraser ? 'dashed' : 'solid',
+                  }}
+                />
+              </div>
+
+              {/* History */}
+              <div className="flex gap-2">
+                <button
+                  onClick={undo}
+                  disabled={history.actions.length === 0}
+                  title="Desfazer (Ctrl+Z)"
+                  className="flex-1 py-2.5 rounded-xl font-bold text-[10px] uppercase tracking-wider bg-gray-100 text-gray-600 hover:bg-gray-200 transition-all disabled:opacity-40 disabled:hover:bg-gray-100"
+                >
+                  Desfazer
+                </button>
+                <button
+                  onClick={redo}
+                  disabled={history.redo.length === 0}
+                  title="Refazer (Ctrl+Shift+Z)"
+                  className="flex-1 py-2.5 rounded-xl font-bold text-[10px] uppercase tracking-wider bg-gray-100 text-gray-600 hover:bg-gray-200 transition-all disabled:opacity-40 disabled:hover:bg-gray-100"
+                >
+                  Refazer
+                </button>
+              </div>
+
+              {/* Action buttons */}
+              <div className="flex gap-2">
+                <button
+                  onClick={() => setIsEraser(!isEraser)}
+                  className={`flex-1 py-2.5 rounded-xl font-bold text-[10px] uppercase tracking-wider transition-all ${isEraser
+                    ? 'bg-[#1D4998] text-white shadow-md'
+                    : 'bg-gray-100 text-gray-600 hover:bg-gray-200'
+                    }`}
+                >
+                  {isEraser ? 'Borracha Ativa' : 'Borracha'}
+                </button>
+                <button
+                  onClick={clearAll}
+                  className="flex-1 py-2.5 rounded-xl font-bold text-[10px] uppercase tracking-wider bg-gray-100 text-gray-600 hover:bg-red-50 hover:text-red-500 transition-all"
+                >
+                  Limpar Tudo
+                </button>
+                <button
+                  onClick={confirmDrawing}
+                  className="flex-1 py-2.5 rounded-xl font-bold text-[10px] uppercase tracking-wider bg-[#57BEB7] text-white hover:bg-[#48a9a3] shadow-md transition-all"
+                >
+                  Confirmar
+                </button>
+              </div>
+            </>
+          )}
         </div>
       )}
     </div>
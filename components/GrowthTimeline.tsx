@@ -0,0 +1,117 @@
+import React, { useState } from 'react';
+import { composeImageStrip } from '../services/imageUtils';
+import { GROWTH_STAGES } from '../services/prompts';
+import type { GrowthStage, SimulationAngle } from '../types';
+
+interface GrowthTimelineProps {
+  angle: SimulationAngle;
+  label: string;
+  before: string;
+  /** Image per stage; 18 is the main result */
+  stages: Partial<Record<GrowthStage, string | null>>;
+  /** Stages being generated right now */
+  pending: GrowthStage[];
+}
+
+export const GROWTH_STAGE_LABELS: Record<GrowthStage, string> = {
+  3: '3 meses',
+  6: '6 meses',
+  12: '12 meses',
+  18: '18 meses',
+};
+
+/**
+ * The original and each growth stage in one frame, scrubbed with a slider
+ * (or by clicking a stage). The strip download puts every available stage
+ * side by side in one image.
+ */
+const GrowthTimeline: React.FC<GrowthTimelineProps> = ({ angle, label, before, stages, pending }) => {
+  const frames = [
+    { key: 'before', label: 'Antes', image: before as string | null, pending: false },
+    ...GROWTH_STAGES.map((stage) => ({
+      key: String(stage),
+      label: GROWTH_STAGE_LABELS[stage],
+      image: stages[stage] ?? null,
+      pending: pending.includes(stage),
+    })),
+  ];
+  // Open on the last frame: the final result
+  const [index, setIndex] = useState(frames.length - 1);
+  const [isSaving, setIsSaving] = useState(false);
+  const frame = frames[index];
+
+  const saveStrip = async () => {
+    setIsSaving(true);
+    try {
+      const strip = await composeImageStrip(
+        frames.flatMap((f) => (f.image ? [{ label: f.label, src: f.image }] : []))
+      );
+      const link = document.createElement('a');
+      link.href = strip;
+      link.download = `homenz-linha-do-tempo-${angle}.jpg`;
+      link.click();
+    } catch (err) {
+      console.error('[Timeline] Falha ao montar imagem:', err);
+      window.alert('Nao foi possivel salvar a linha do tempo.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      <p className="text-[10px] font-black text-gray-500 uppercase tracking-wider">{label}</p>
+      <div className="relative rounded-xl overflow-hidden aspect-square border-2 border-gray-200 bg-white">
+        {frame.image ? (
+          <img src={frame.image} alt={`${label} — ${frame.label}`} className="w-full h-full object-cover" />
+        ) : (
+          <div className="flex items-center justify-center h-full">
+            {frame.pending ? (
+              <div className="w-6 h-6 border-2 border-[#57BEB7]/20 border-t-[#57BEB7] rounded-full animate-spin" />
+            ) : (
+              <span className="text-gray-300 text-[10px] font-bold">—</span>
+            )}
+          </div>
+        )}
+        <span className="absolute top-2 left-2 bg-[#1D4998]/80 text-white text-[9px] font-black uppercase tracking-wider px-2 py-0.5 rounded">
+          {frame.label}
+        </span>
+      </div>
+
+      <input
+        type="range"
+        min={0}
+        max={frames.length - 1}
+        step={1}
+        value={index}
+        onChange={(e) => setIndex(Number(e.target.value))}
+        aria-label="Linha do tempo"
+        className="w-full accent-[#57BEB7]"
+      />
+      <div className="flex justify-between">
+        {frames.map((f, i) => (
+          <button
+            key={f.key}
+            onClick={() => setIndex(i)}
+            className={`text-[9px] font-black uppercase tracking-wider transition-all ${i === index
+              ? 'text-[#1D4998]'
+              : f.image ? 'text-gray-400 hover:text-[#57BEB7]' : 'text-gray-300'
+              }`}
+          >
+            {f.label}
+          </button>
+        ))}
+      </div>
+
+      <button
+        onClick={saveStrip}
+        disabled={isSaving || frames.some((f) => f.pending)}
+        className="w-full py-2 bg-[#1D4998] text-white font-black uppercase tracking-widest text-[10px] rounded-xl hover:bg-[#153a7a] transition-all shadow-md disabled:opacity-60"
+      >
+        {isSaving ? 'Salvando...' : `Salvar Linha do Tempo ${label}`}
+      </button>
+    </div>
+  );
+};
+
+export default GrowthTimeline;
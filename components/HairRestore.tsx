@@ -1,25 +1,126 @@
-import React, { useState } from 'react';
+import React, { useEffect, useMemo, useRef, useState } from 'react';
 import DrawingCanvas from './DrawingCanvas';
-import { simulateAngle } from '../services/geminiService';
+import SessionList, { describeSession, formatSessionDate } from './SessionList';
+import PatientManager, { describePatient } from './PatientManager';
+import BeforeAfterCompare from './BeforeAfterCompare';
+import PresentationView, { type PresentationItem } from './PresentationView';
+import CameraCapture from './CameraCapture';
+import GrowthTimeline, { GROWTH_STAGE_LABELS } from './GrowthTimeline';
+import {
+  ANGLE_CONCURRENCY,
+  DEFAULT_VARIANT_COUNT,
+  runSimulation,
+  simulateAngle,
+  type SimulationProgress,
+} from '../services/geminiService';
+import { mapWithConcurrency } from '../services/concurrency';
+import {
+  DEFAULT_DENSITY_LEVEL,
+  DEFAULT_PROCEDURE,
+  DENSITY_LEVEL_FU,
+  DENSITY_LEVELS,
+  FINAL_GROWTH_STAGE,
+  GROWTH_STAGES,
+  PROCEDURE_ANGLES,
+  PROCEDURES,
+  SIMULATION_ANGLES,
+  classifyHairColor,
+  type HairColorName,
+} from '../services/prompts';
+import { detectHair, sampleHairAt } from '../services/hairSampler';
+import { ERROR_LABELS, isAbortError, RETRYABLE_CATEGORIES } from '../services/errors';
+import {
+  PROVIDER_IDS,
+  PROVIDER_LABELS,
+  resolveProviderId,
+  type ImageProviderId,
+} from '../services/providers';
+import { EMPTY_HISTORY } from '../services/drawing';
+import {
+  DEFAULT_DENSITY_RANGE,
+  PROCEDURE_DENSITY_RANGES,
+  estimateGrafts,
+  formatArea,
+  formatGrafts,
+  maskAreaCm2,
+} from '../services/measurement';
+import {
+  createSessionId,
+  deleteSession,
+  listSessions,
+  loadSession,
+  saveSession,
+  type SessionSummary,
+  type StoredSession,
+} from '../services/sessionStore';
+import { deletePatient, listPatients, savePatient } from '../services/patientStore';
+import {
+  assessPhotoQuality,
+  isPhotoBlocked,
+  type PhotoQualityReport,
+} from '../services/photoQuality';
+import { dataUrlToBlob, ingestPhoto } from '../services/photoIngest';
+import { DEFAULT_REFERENCE_MODE, REFERENCE_LIBRARY, REFERENCE_MODES } from '../services/referenceLibrary';
+import { buildConsultationReport, reportFileName, type ConsultationReport } from '../services/reportPdf';
 import type {
   SimulationAngle,
   AngleImageMap,
+  AnglePhotoMap,
   AngleDrawingMap,
+  AngleHistoryMap,
+  AngleCalibrationMap,
+  AngleHairMap,
   AngleResult,
+  DensityLevel,
+  DensityRange,
+  GrowthStage,
+  HairTexture,
+  Patient,
   PipelineStep,
+  Point,
+  Procedure,
+  ReferenceMode,
 } from '../types';
 
 // ---------------------------------------------------------------------------
 // Constants
 // ---------------------------------------------------------------------------
 
-const ANGLES: SimulationAngle[] = ['frontal', 'top'];
-
 const ANGLE_CONFIG: Record<SimulationAngle, { label: string; instruction: string }> = {
   frontal: { label: 'Vista Frontal', instruction: 'Olhando para a camera' },
   top: { label: 'Vista Superior', instruction: 'Olhando para baixo' },
+  left: { label: 'Lateral Esquerda', instruction: 'Perfil esquerdo, orelha visivel' },
+  right: { label: 'Lateral Direita', instruction: 'Perfil direito, orelha visivel' },
+  crown: { label: 'Coroa (Posterior)', instruction: 'De costas, cabeca inclinada' },
+  beard_front: { label: 'Barba Frontal', instruction: 'Olhando para a camera, queixo reto' },
+  beard_left: { label: 'Barba Esquerda', instruction: 'Tres quartos, lado esquerdo' },
+  beard_right: { label: 'Barba Direita', instruction: 'Tres quartos, lado direito' },
+  brow_front: { label: 'Sobrancelhas', instruction: 'Close frontal, olhos abertos' },
+  brow_left: { label: 'Sobrancelha Esquerda', instruction: 'Close tres quartos, lado esquerdo' },
+  brow_right: { label: 'Sobrancelha Direita', instruction: 'Close tres quartos, lado direito' },
+};
+
+const PROCEDURE_CONFIG: Record<Procedure, { label: string; drawTitle: string; drawHint: string }> = {
+  scalp: {
+    label: 'Couro Cabeludo',
+    drawTitle: 'Pinte toda a area onde deseja adicionar cabelo',
+    drawHint: 'Preencha completamente a area calva com a cor vermelha — o cabelo sera gerado exatamente sobre a marcacao',
+  },
+  beard: {
+    label: 'Barba',
+    drawTitle: 'Pinte as falhas da barba',
+    drawHint: 'Marque bochechas, bigode, cavanhaque ou mandibula sem pelos — a barba sera gerada sobre a marcacao',
+  },
+  eyebrow: {
+    label: 'Sobrancelha',
+    drawTitle: 'Pinte o formato desejado da sobrancelha',
+    drawHint: 'Marque falhas, cauda rala ou o desenho completo — os fios serao gerados sobre a marcacao',
+  },
 };
 
+/** Face seen straight on: symmetry and pupil calibration apply */
+const FACING_ANGLES: SimulationAngle[] = ['frontal', 'beard_front', 'brow_front'];
+
 const STEP_LABELS: { key: PipelineStep[]; label: string }[] = [
   { key: ['upload'], label: 'Fotos' },
   { key: ['draw'], label: 'Marcar' },
@@ -27,121 +128,825 @@ const STEP_LABELS: { key: PipelineStep[]; label: string }[] = [
   { key: ['done'], label: 'Resultado' },
 ];
 
-const EMPTY_IMAGES: AngleImageMap = { frontal: null, top: null };
-const EMPTY_DRAWINGS: AngleDrawingMap = {
-  frontal: { drawingDataUrl: null, compositeDataUrl: null },
-  top: { drawingDataUrl: null, compositeDataUrl: null },
+const VARIANT_OPTIONS = [1, 2, 3, 4];
+
+const DENSITY_LEVEL_LABELS: Record<DensityLevel, string> = {
+  conservative: 'Conservador',
+  moderate: 'Moderado',
+  full: 'Cobertura Total',
+};
+
+const REFERENCE_MODE_LABELS: Record<ReferenceMode, string> = {
+  off: 'Nao',
+  on: 'Sim',
+  ab: 'A/B',
+};
+
+/** Quiet time before the session is written to IndexedDB */
+const AUTOSAVE_DELAY_MS = 1000;
+
+// Maps hold every angle of every procedure; only the active procedure's are shown
+const EMPTY_PHOTOS = Object.fromEntries(SIMULATION_ANGLES.map((a) => [a, null])) as AnglePhotoMap;
+const EMPTY_DRAWINGS = Object.fromEntries(
+  SIMULATION_ANGLES.map((a) => [a, { drawingDataUrl: null, compositeDataUrl: null }])
+) as AngleDrawingMap;
+const EMPTY_HISTORIES = Object.fromEntries(SIMULATION_ANGLES.map((a) => [a, EMPTY_HISTORY])) as AngleHistoryMap;
+const EMPTY_CALIBRATIONS = Object.fromEntries(SIMULATION_ANGLES.map((a) => [a, null])) as AngleCalibrationMap;
+const EMPTY_HAIR = Object.fromEntries(SIMULATION_ANGLES.map((a) => [a, null])) as AngleHairMap;
+
+const HAIR_TEXTURE_LABELS: Record<HairTexture, string> = {
+  straight: 'Liso',
+  wavy: 'Ondulado',
+  curly: 'Cacheado',
 };
 
-const makeInitialResults = (): AngleResult[] =>
-  ANGLES.map((angle) => ({
+const HAIR_COLOR_LABELS: Record<HairColorName, string> = {
+  gray: 'Grisalho/branco',
+  salt_pepper: 'Grisalho mesclado',
+  black: 'Preto',
+  auburn: 'Ruivo escuro',
+  copper: 'Ruivo acobreado',
+  dark_brown: 'Castanho escuro',
+  medium_brown: 'Castanho medio',
+  light_brown: 'Castanho claro',
+  dark_blonde: 'Loiro escuro',
+  blonde: 'Loiro',
+};
+
+const makeInitialProviders = () =>
+  Object.fromEntries(SIMULATION_ANGLES.map((a) => [a, resolveProviderId(a)])) as Record<SimulationAngle, ImageProviderId>;
+
+const makeInitialResults = (procedure: Procedure): AngleResult[] =>
+  PROCEDURE_ANGLES[procedure].map((angle) => ({
     angle,
     label: ANGLE_CONFIG[angle].label,
     image: null,
+    variants: [],
+    selectedVariant: 0,
     status: 'pending',
   }));
 
+const formatElapsed = (ms: number) => `${Math.floor(ms / 1000)}s`;
+
+/** One image beyond the main run: a density scenario, or a growth stage */
+interface ExtraJob {
+  angle: SimulationAngle;
+  density: DensityLevel;
+  stage?: GrowthStage;
+}
+
+const extraKey = ({ angle, density, stage }: ExtraJob) =>
+  stage ? `${angle}:stage:${stage}` : `${angle}:density:${density}`;
+
+/** Still generating: waiting to start, or started with variants outstanding */
+const isAngleRunning = (r: AngleResult) =>
+  r.status === 'loading' || (r.startedAt !== undefined && r.elapsedMs === undefined);
+
+/** A run cut short (reload or abort) cannot resume; keep whatever finished */
+const settleInterrupted = (r: AngleResult): AngleResult =>
+  isAngleRunning(r)
+    ? {
+        ...r,
+        status: r.image ? 'success' : 'error',
+        elapsedMs: r.elapsedMs ?? 0,
+        errorMessage: r.image ? r.errorMessage : 'Simulacao interrompida',
+      }
+    : r;
+
+/** Object URL per photo, created once per Blob and revoked when it goes away */
+const useObjectUrls = (photos: AnglePhotoMap): AngleImageMap => {
+  const cache = useRef(new Map<Blob, string>());
+
+  const urls = useMemo(() => {
+    const entries = SIMULATION_ANGLES.map((angle) => {
+      const blob = photos[angle];
+      if (!blob) return [angle, null];
+      if (!cache.current.has(blob)) cache.current.set(blob, URL.createObjectURL(blob));
+      return [angle, cache.current.get(blob)!];
+    });
+    return Object.fromEntries(entries) as AngleImageMap;
+  }, [photos]);
+
+  useEffect(() => {
+    const live = new Set(Object.values(photos));
+    for (const [blob, url] of cache.current) {
+      if (!live.has(blob)) {
+        URL.revokeObjectURL(url);
+        cache.current.delete(blob);
+      }
+    }
+  }, [photos]);
+
+  useEffect(
+    () => () => {
+      cache.current.forEach((url) => URL.revokeObjectURL(url));
+      cache.current.clear();
+    },
+    []
+  );
+
+  return urls;
+};
+
 // ---------------------------------------------------------------------------
 // Component
 // ---------------------------------------------------------------------------
 
 const HairRestore: React.FC = () => {
   const [currentStep, setCurrentStep] = useState<PipelineStep>('upload');
-  const [angleImages, setAngleImages] = useState<AngleImageMap>(EMPTY_IMAGES);
+  // Procedure being simulated: picks the angles, instructions and prompts
+  const [procedure, setProcedure] = useState<Procedure>(DEFAULT_PROCEDURE);
+  const angles = PROCEDURE_ANGLES[procedure];
+  const [anglePhotos, setAnglePhotos] = useState<AnglePhotoMap>(EMPTY_PHOTOS);
+  // What the UI and the pipeline load: object URLs for the photos above
+  const angleImages = useObjectUrls(anglePhotos);
   const [drawings, setDrawings] = useState<AngleDrawingMap>(EMPTY_DRAWINGS);
+  // Stroke history per angle survives switching tabs (DrawingCanvas remounts)
+  const [histories, setHistories] = useState<AngleHistoryMap>(EMPTY_HISTORIES);
   const [activeDrawingAngle, setActiveDrawingAngle] = useState<SimulationAngle>('frontal');
-  const [results, setResults] = useState<AngleResult[]>(makeInitialResults());
+  // Photo scale per angle (each photo is taken at its own distance)
+  const [calibrations, setCalibrations] = useState<AngleCalibrationMap>(EMPTY_CALIBRATIONS);
+  // Patient's existing hair per angle (lighting differs between photos)
+  const [hairProfiles, setHairProfiles] = useState<AngleHairMap>(EMPTY_HAIR);
+  const [densityRange, setDensityRange] = useState<DensityRange>(DEFAULT_DENSITY_RANGE);
+  // Density the main run simulates; the others can be generated for comparison
+  const [densityLevel, setDensityLevel] = useState<DensityLevel>(DEFAULT_DENSITY_LEVEL);
+  // Density scenarios and timeline stages being generated (see extraKey)
+  const [pendingExtras, setPendingExtras] = useState<string[]>([]);
+  const [results, setResults] = useState<AngleResult[]>(() => makeInitialResults(DEFAULT_PROCEDURE));
+  const [angleProviders, setAngleProviders] =
+    useState<Record<SimulationAngle, ImageProviderId>>(makeInitialProviders);
+  const [variantCount, setVariantCount] = useState<number>(
+    VARIANT_OPTIONS.includes(DEFAULT_VARIANT_COUNT) ? DEFAULT_VARIANT_COUNT : 1
+  );
+  // Few-shot reference cases for the main run (A/B alternates per variant)
+  const [referenceMode, setReferenceMode] = useState<ReferenceMode>(DEFAULT_REFERENCE_MODE);
+
+  // One controller per run in flight (main run, retries, extras), so starting one never cancels another
+  const runsRef = useRef(new Set<AbortController>());
+  const [now, setNow] = useState(() => Date.now());
+
+  // Local persistence: the open session, the saved list, and the resume offer
+  const [session, setSession] = useState<{ id: string; createdAt: number } | null>(null);
+  const [savedSessions, setSavedSessions] = useState<SessionSummary[]>([]);
+  const [resumeCandidate, setResumeCandidate] = useState<SessionSummary | null>(null);
+  const [showSessions, setShowSessions] = useState(false);
+
+  // Patient the open session belongs to, and their first visit for comparison
+  const [patients, setPatients] = useState<Patient[]>([]);
+  const [patientId, setPatientId] = useState<string | null>(null);
+  const [showPatients, setShowPatients] = useState(false);
+  const [firstVisit, setFirstVisit] = useState<StoredSession | null>(null);
+  const patient = patients.find((p) => p.id === patientId) ?? null;
+  const firstVisitImages = useObjectUrls(firstVisit?.anglePhotos ?? EMPTY_PHOTOS);
+
+  // Consultant's notes for the PDF report
+  const [notes, setNotes] = useState('');
+  const [isExporting, setIsExporting] = useState(false);
 
-  const uploadedCount = ANGLES.filter((a) => angleImages[a] !== null).length;
-  const drawnCount = ANGLES.filter((a) => drawings[a].compositeDataUrl !== null).length;
+  // Local quality check per angle, keyed by the photo it was run on (null report: the check failed)
+  const [photoQuality, setPhotoQuality] = useState<
+    Partial<Record<SimulationAngle, { src: string; report: PhotoQualityReport | null }>>
+  >({});
+
+  // Angle being photographed with the in-app camera
+  const [cameraAngle, setCameraAngle] = useState<SimulationAngle | null>(null);
+
+  // Index into presentationItems while the fullscreen view is open
+  const [presentationIndex, setPresentationIndex] = useState<number | null>(null);
+
+  const isRunning = results.some(isAngleRunning);
+
+  // Tick once a second while something is generating, for the elapsed timers
+  useEffect(() => {
+    if (!isRunning) return;
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [isRunning]);
+
+  // Abort in-flight generations if the component goes away
+  useEffect(() => () => abortAllRuns(), []);
+
+  const uploadedCount = angles.filter((a) => angleImages[a] !== null).length;
+
+  /** Quality report for the angle's current photo, once the check has run */
+  const qualityOf = (angle: SimulationAngle) => {
+    const entry = photoQuality[angle];
+    return entry && entry.src === angleImages[angle] ? entry.report : null;
+  };
+  const blockedAngles = angles.filter((a) => isPhotoBlocked(qualityOf(a)));
+  // A photo still being checked may yet turn out blocked
+  const checkingAngles = angles.filter((a) => angleImages[a] && photoQuality[a]?.src !== angleImages[a]);
+  const drawnCount = angles.filter((a) => drawings[a].compositeDataUrl !== null).length;
+  // The reference option only matters if the library covers this procedure
+  const hasReferences = REFERENCE_LIBRARY.some((ref) => ref.angles.some((a) => angles.includes(a)));
+
+  // --- Sessions ---
+
+  const refreshSessions = () =>
+    listSessions()
+      .then(setSavedSessions)
+      .catch((err) => console.warn('[Session] Falha ao listar sessoes:', err));
+
+  // Offer the most recent session on load
+  useEffect(() => {
+    listPatients()
+      .then(setPatients)
+      .catch((err) => console.warn('[Patient] Falha ao listar pacientes:', err));
+    listSessions()
+      .then((list) => {
+        setSavedSessions(list);
+        setResumeCandidate(list[0] ?? null);
+      })
+      .catch((err) => console.warn('[Session] Falha ao listar sessoes:', err));
+  }, []);
+
+  // Autosave once there is at least one photo
+  useEffect(() => {
+    if (uploadedCount === 0) return;
+    if (!session) {
+      setSession({ id: createSessionId(), createdAt: Date.now() });
+      return;
+    }
+    const timer = setTimeout(() => {
+      saveSession({
+        id: session.id,
+        patientId,
+        createdAt: session.createdAt,
+        updatedAt: Date.now(),
+        step: currentStep,
+        procedure,
+        anglePhotos,
+        drawings,
+        histories,
+        calibrations,
+        hairProfiles,
+        densityRange,
+        densityLevel,
+        results,
+        angleProviders,
+        variantCount,
+        referenceMode,
+        activeDrawingAngle,
+        notes,
+      })
+        .then(refreshSessions)
+        .catch((err) => console.warn('[Session] Falha ao salvar sessao:', err));
+    }, AUTOSAVE_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [
+    session,
+    patientId,
+    currentStep,
+    procedure,
+    anglePhotos,
+    drawings,
+    histories,
+    calibrations,
+    hairProfiles,
+    densityRange,
+    densityLevel,
+    results,
+    angleProviders,
+    variantCount,
+    referenceMode,
+    activeDrawingAngle,
+    notes,
+  ]);
+
+  const openSession = async (id: string) => {
+    let stored;
+    try {
+      stored = await loadSession(id);
+    } catch (err) {
+      console.warn('[Session] Falha ao abrir sessao:', err);
+    }
+    if (!stored) return;
+
+    abortAllRuns();
+    // Sessions saved before beard and eyebrow modes only have the scalp angles
+    setProcedure(stored.procedure ?? DEFAULT_PROCEDURE);
+    setAnglePhotos({ ...EMPTY_PHOTOS, ...stored.anglePhotos });
+    setDrawings({ ...EMPTY_DRAWINGS, ...stored.drawings });
+    setHistories({ ...EMPTY_HISTORIES, ...stored.histories });
+    setCalibrations({ ...EMPTY_CALIBRATIONS, ...stored.calibrations });
+    setHairProfiles({ ...EMPTY_HAIR, ...stored.hairProfiles });
+    setDensityRange(stored.densityRange);
+    setDensityLevel(stored.densityLevel ?? DEFAULT_DENSITY_LEVEL);
+    setResults(stored.results.map(settleInterrupted));
+    setAngleProviders({ ...makeInitialProviders(), ...stored.angleProviders });
+    setVariantCount(stored.variantCount);
+    setReferenceMode(stored.referenceMode ?? DEFAULT_REFERENCE_MODE);
+    setActiveDrawingAngle(stored.activeDrawingAngle);
+    setNotes(stored.notes ?? '');
+    setCurrentStep(stored.step === 'processing' ? 'done' : stored.step);
+    setSession({ id: stored.id, createdAt: stored.createdAt });
+    setPatientId(stored.patientId ?? null);
+    setResumeCandidate(null);
+    setShowSessions(false);
+  };
+
+  const removeSession = async (id: string) => {
+    if (!window.confirm('Excluir esta sessao e todas as suas fotos?')) return;
+    try {
+      await deleteSession(id);
+    } catch (err) {
+      console.warn('[Session] Falha ao excluir sessao:', err);
+      return;
+    }
+    if (id === session?.id) resetAll();
+    if (id === resumeCandidate?.id) setResumeCandidate(null);
+    refreshSessions();
+  };
+
+  // --- Patients ---
+
+  const handleSavePatient = async (record: Patient) => {
+    try {
+      await savePatient(record);
+      setPatients(await listPatients());
+      setPatientId(record.id);
+    } catch (err) {
+      console.warn('[Patient] Falha ao salvar paciente:', err);
+    }
+  };
+
+  const handleDeletePatient = async (id: string) => {
+    if (!window.confirm('Excluir este paciente e todas as suas sessoes?')) return;
+    const ownsOpenSession = id === patientId && session !== null;
+    try {
+      await deletePatient(id);
+    } catch (err) {
+      console.warn('[Patient] Falha ao excluir paciente:', err);
+      return;
+    }
+    if (ownsOpenSession) resetAll();
+    if (id === patientId) setPatientId(null);
+    setPatients((prev) => prev.filter((p) => p.id !== id));
+    setResumeCandidate(null);
+    refreshSessions();
+  };
+
+  // Load the patient's earliest other session as the follow-up baseline
+  const firstVisitSummary =
+    savedSessions
+      .filter((s) => patientId !== null && s.patientId === patientId && s.id !== session?.id)
+      .sort((a, b) => a.createdAt - b.createdAt)[0] ?? null;
+  const firstVisitId =
+    firstVisitSummary && (!session || firstVisitSummary.createdAt < session.createdAt) ? firstVisitSummary.id : null;
+
+  useEffect(() => {
+    if (!firstVisitId) {
+      setFirstVisit(null);
+      return;
+    }
+    let cancelled = false;
+    loadSession(firstVisitId)
+      .then((stored) => !cancelled && setFirstVisit(stored))
+      .catch((err) => console.warn('[Session] Falha ao carregar primeira consulta:', err));
+    return () => {
+      cancelled = true;
+    };
+  }, [firstVisitId]);
 
   // --- File handling ---
 
+  // Check every photo once, whether uploaded, captured or restored
+  useEffect(() => {
+    let cancelled = false;
+    for (const angle of SIMULATION_ANGLES) {
+      const src = angleImages[angle];
+      if (!src || photoQuality[angle]?.src === src) continue;
+      assessPhotoQuality(src)
+        .then((report) => {
+          if (!cancelled) setPhotoQuality((prev) => ({ ...prev, [angle]: { src, report } }));
+        })
+        .catch((err) => {
+          console.warn('[Quality] Falha ao analisar foto:', err);
+          // Settle anyway: a failed check must not hold the draw step forever
+          if (!cancelled) setPhotoQuality((prev) => ({ ...prev, [angle]: { src, report: null } }));
+        });
+    }
+    return () => {
+      cancelled = true;
+    };
+  }, [angleImages]);
+
+  /** New photo for an angle: previous marks and calibration no longer apply */
+  const setAnglePhoto = (angle: SimulationAngle, photo: Blob) => {
+    setAnglePhotos((prev) => ({ ...prev, [angle]: photo }));
+    setDrawings((prev) => ({
+      ...prev,
+      [angle]: { drawingDataUrl: null, compositeDataUrl: null },
+    }));
+    setHistories((prev) => ({ ...prev, [angle]: EMPTY_HISTORY }));
+    setCalibrations((prev) => ({ ...prev, [angle]: null }));
+    setHairProfiles((prev) => ({ ...prev, [angle]: null }));
+  };
+
   const handleFileChange = (angle: SimulationAngle, e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
     if (!file) return;
-    const reader = new FileReader();
-    reader.onloadend = () => {
-      setAngleImages((prev) => ({ ...prev, [angle]: reader.result as string }));
-      setDrawings((prev) => ({
-        ...prev,
-        [angle]: { drawingDataUrl: null, compositeDataUrl: null },
-      }));
-    };
-    reader.readAsDataURL(file);
     e.target.value = '';
+    ingestPhoto(file)
+      .then((photo) => setAnglePhoto(angle, photo))
+      .catch((err) => {
+        console.warn('[Upload] Falha ao processar foto:', err);
+        window.alert('Nao foi possivel abrir esta foto. Tente outro arquivo (JPG, PNG ou HEIC).');
+      });
+  };
+
+  const handleCameraCapture = (dataUrl: string) => {
+    const angle = cameraAngle;
+    setCameraAngle(null);
+    if (!angle) return;
+    dataUrlToBlob(dataUrl)
+      .then(ingestPhoto)
+      .then((photo) => setAnglePhoto(angle, photo))
+      .catch((err) => console.warn('[Camera] Falha ao processar foto:', err));
   };
 
   const removeImage = (angle: SimulationAngle) => {
-    setAngleImages((prev) => ({ ...prev, [angle]: null }));
+    setAnglePhotos((prev) => ({ ...prev, [angle]: null }));
     setDrawings((prev) => ({
       ...prev,
       [angle]: { drawingDataUrl: null, compositeDataUrl: null },
     }));
+    setHistories((prev) => ({ ...prev, [angle]: EMPTY_HISTORY }));
+    setCalibrations((prev) => ({ ...prev, [angle]: null }));
+    setHairProfiles((prev) => ({ ...prev, [angle]: null }));
+  };
+
+  // --- Procedure ---
+
+  /** Switch the angle set; photos and marks of the previous procedure do not carry over */
+  const changeProcedure = (next: Procedure) => {
+    if (next === procedure) return;
+    if (uploadedCount > 0 && !window.confirm('Trocar o procedimento descarta as fotos e marcacoes atuais. Continuar?')) {
+      return;
+    }
+    setProcedure(next);
+    setAnglePhotos(EMPTY_PHOTOS);
+    setDrawings(EMPTY_DRAWINGS);
+    setHistories(EMPTY_HISTORIES);
+    setCalibrations(EMPTY_CALIBRATIONS);
+    setHairProfiles(EMPTY_HAIR);
+    setResults(makeInitialResults(next));
+    setActiveDrawingAngle(PROCEDURE_ANGLES[next][0]);
+    setDensityRange(PROCEDURE_DENSITY_RANGES[next]);
   };
 
   // --- Drawing ---
 
+  /** Enter the draw step on an angle that actually has a photo */
+  const goToDraw = () => {
+    if (blockedAngles.length > 0 || checkingAngles.length > 0) return;
+    if (!angleImages[activeDrawingAngle]) {
+      const first = angles.find((a) => angleImages[a] !== null);
+      if (first) setActiveDrawingAngle(first);
+    }
+    setCurrentStep('draw');
+  };
+
   const handleDrawingComplete = (
     angle: SimulationAngle,
     drawingDataUrl: string,
-    compositeDataUrl: string
+    compositeDataUrl: string,
+    maskPixels: number
   ) => {
     setDrawings((prev) => ({
       ...prev,
-      [angle]: { drawingDataUrl, compositeDataUrl },
+      [angle]: { drawingDataUrl, compositeDataUrl, maskPixels },
     }));
+
+    // Detect the hair next to the marks unless the consultant picked it
+    const photo = angleImages[angle];
+    if (photo && hairProfiles[angle]?.source !== 'picked') {
+      detectHair(photo, drawingDataUrl)
+        .then((profile) =>
+          setHairProfiles((prev) => (prev[angle]?.source === 'picked' ? prev : { ...prev, [angle]: profile }))
+        )
+        .catch((err) => console.warn('[Hair] Falha ao detectar cabelo:', err));
+    }
+  };
+
+  const pickHair = (angle: SimulationAngle, point: Point) => {
+    const photo = angleImages[angle];
+    if (!photo) return;
+    sampleHairAt(photo, point)
+      .then((profile) => setHairProfiles((prev) => ({ ...prev, [angle]: profile })))
+      .catch((err) => console.warn('[Hair] Falha ao amostrar cabelo:', err));
+  };
+
+  /** Treated area and graft range of a confirmed drawing, when calibrated */
+  const getEstimate = (angle: SimulationAngle) => {
+    const area = maskAreaCm2(drawings[angle].maskPixels ?? 0, calibrations[angle]);
+    if (area === null || !drawings[angle].compositeDataUrl) return null;
+    return { area, grafts: estimateGrafts(area, densityRange) };
+  };
+
+  const updateDensity = (key: keyof DensityRange, value: number) => {
+    setDensityRange((prev) => ({ ...prev, [key]: Math.max(1, value || 1) }));
   };
 
   // --- Run simulation (single prompt per angle) ---
 
+  const updateResult = (angle: SimulationAngle, update: (r: AngleResult) => AngleResult) => {
+    setResults((prev) => prev.map((r) => (r.angle === angle ? update(r) : r)));
+  };
+
+  /** Apply one runSimulation progress event to its angle's result */
+  const handleProgress = (event: SimulationProgress) => {
+    const { angle } = event;
+    switch (event.type) {
+      case 'start':
+        updateResult(angle, (r) => ({ ...r, startedAt: event.startedAt }));
+        break;
+      case 'variant': {
+        // Show each variant as soon as it lands; the first success becomes the pick
+        const { image, reference } = event.result;
+        if (!image) break;
+        updateResult(angle, (r) => {
+          const next = [...r.variants];
+          next[event.index] = image;
+          const references = [...(r.variantReferences ?? [])];
+          references[event.index] = reference ?? null;
+          const keepSelection = r.image !== null;
+          return {
+            ...r,
+            variants: next,
+            variantReferences: references,
+            selectedVariant: keepSelection ? r.selectedVariant : event.index,
+            image: keepSelection ? r.image : image,
+            status: 'success' as const,
+          };
+        });
+        break;
+      }
+      case 'done': {
+        const failed = event.results.every((v) => !v.image);
+        updateResult(angle, (r) => ({
+          ...r,
+          elapsedMs: event.elapsedMs,
+          ...(failed && {
+            status: 'error' as const,
+            errorMessage: event.results[0]?.error,
+            errorCategory: event.results[0]?.category,
+          }),
+        }));
+        break;
+      }
+      case 'error':
+        updateResult(angle, (r) => ({
+          ...r,
+          elapsedMs: event.elapsedMs,
+          status: 'error' as const,
+          errorMessage: event.error.message,
+          errorCategory: event.error.category,
+        }));
+        break;
+    }
+  };
+
+  const resetResultForRun = (r: AngleResult): AngleResult => ({
+    ...makeInitialResults(procedure).find((init) => init.angle === r.angle)!,
+    variants: new Array(variantCount).fill(null),
+    variantReferences: new Array(variantCount).fill(null),
+    status: 'loading',
+    density: densityLevel,
+  });
+
+  const startRun = () => {
+    const controller = new AbortController();
+    runsRef.current.add(controller);
+    return controller;
+  };
+
+  const abortAllRuns = () => {
+    runsRef.current.forEach((controller) => controller.abort());
+    runsRef.current.clear();
+  };
+
+  /**
+   * Simulate the given angles with their own AbortController. Returns false
+   * if the run was cancelled; its angles still generating are then settled,
+   * so none is left spinning.
+   */
+  const simulate = async (angles: SimulationAngle[]): Promise<boolean> => {
+    const controller = startRun();
+
+    try {
+      await runSimulation(
+        angles.map((angle) => ({
+          angle,
+          originalDataUrl: angleImages[angle]!,
+          compositeDataUrl: drawings[angle].compositeDataUrl!,
+          rawDrawingDataUrl: drawings[angle].drawingDataUrl!,
+          provider: angleProviders[angle],
+          hair: hairProfiles[angle],
+        })),
+        {
+          count: variantCount,
+          density: densityLevel,
+          reference: referenceMode,
+          signal: controller.signal,
+          onProgress: handleProgress,
+        }
+      );
+      return true;
+    } catch (err) {
+      if (!isAbortError(err)) throw err;
+      for (const angle of angles) updateResult(angle, settleInterrupted);
+      return false;
+    } finally {
+      runsRef.current.delete(controller);
+    }
+  };
+
   const runPipeline = async () => {
     setCurrentStep('processing');
-    const activeAngles = ANGLES.filter((a) => drawings[a].compositeDataUrl !== null);
+    const activeAngles = angles.filter((a) => drawings[a].compositeDataUrl !== null);
 
     setResults(
-      makeInitialResults().map((r) => ({
-        ...r,
-        status: activeAngles.includes(r.angle) ? 'loading' as const : 'pending' as const,
-      }))
+      makeInitialResults(procedure).map((r) => (activeAngles.includes(r.angle) ? resetResultForRun(r) : r))
     );
 
-    for (const angle of activeAngles) {
-      const original = angleImages[angle]!;
-      const composite = drawings[angle].compositeDataUrl!;
-      const rawDrawing = drawings[angle].drawingDataUrl!;
-
-      try {
-        const image = await simulateAngle(original, composite, angle, rawDrawing);
-        setResults((prev) =>
-          prev.map((r) =>
-            r.angle === angle
-              ? { ...r, image, status: 'success' as const }
-              : r
-          )
-        );
-      } catch (err: any) {
-        setResults((prev) =>
-          prev.map((r) =>
-            r.angle === angle
-              ? { ...r, status: 'error' as const, errorMessage: err?.message }
-              : r
-          )
-        );
-      }
+    if (await simulate(activeAngles)) {
+      setCurrentStep('done');
+    }
+  };
+
+  /** Stop everything in flight and go back to drawing; marks are kept */
+  const cancelPipeline = () => {
+    abortAllRuns();
+    setResults(makeInitialResults(procedure));
+    setCurrentStep('draw');
+  };
+
+  /** Re-run a single failed angle from the results step */
+  const retryAngle = async (angle: SimulationAngle) => {
+    updateResult(angle, resetResultForRun);
+    await simulate([angle]);
+  };
+
+  // --- Density scenarios and growth timeline ---
+
+  /** Image of a result at a density level: the main pick for its own level */
+  const scenarioImage = (r: AngleResult, level: DensityLevel) =>
+    level === (r.density ?? 'full') ? r.image : r.scenarios?.[level] ?? null;
+
+  /** Image of a result at a growth stage: the main pick is the final one */
+  const stageImage = (r: AngleResult, stage: GrowthStage) =>
+    stage === FINAL_GROWTH_STAGE ? r.image : r.timeline?.[stage] ?? null;
+
+  const missingScenarios: ExtraJob[] = results.flatMap((r) =>
+    r.status === 'success' && r.image
+      ? DENSITY_LEVELS.filter((level) => !scenarioImage(r, level)).map((level) => ({ angle: r.angle, density: level }))
+      : []
+  );
+
+  // Stages follow the main result's density, so they lead up to it
+  const missingStages: ExtraJob[] = results.flatMap((r) =>
+    r.status === 'success' && r.image
+      ? GROWTH_STAGES.filter((stage) => !stageImage(r, stage)).map((stage) => ({
+          angle: r.angle,
+          density: r.density ?? 'full',
+          stage,
+        }))
+      : []
+  );
+
+  /** One extra image per job, from the same photo, marks and hair as the main run */
+  const generateExtras = async (jobs: ExtraJob[]) => {
+    const controller = startRun();
+    setPendingExtras(jobs.map(extraKey));
+
+    try {
+      await mapWithConcurrency(
+        jobs,
+        ANGLE_CONCURRENCY,
+        async (job) => {
+          const { angle, density, stage } = job;
+          try {
+            const image = await simulateAngle(
+              angleImages[angle]!,
+              drawings[angle].compositeDataUrl!,
+              angle,
+              drawings[angle].drawingDataUrl!,
+              {
+                provider: angleProviders[angle],
+                density,
+                stage,
+                hair: hairProfiles[angle],
+                // A/B is for the main run's variants; extras follow the reference only when it is always on
+                reference: referenceMode === 'on' ? 'on' : 'off',
+                signal: controller.signal,
+              }
+            );
+            updateResult(angle, (r) =>
+              stage
+                ? { ...r, timeline: { ...r.timeline, [stage]: image } }
+                : { ...r, scenarios: { ...r.scenarios, [density]: image } }
+            );
+          } catch (err) {
+            if (isAbortError(err)) throw err;
+            console.warn(`[${angle}] ${stage ? `Estagio ${stage} meses` : `Cenario ${density}`} falhou:`, err);
+          } finally {
+            setPendingExtras((prev) => prev.filter((key) => key !== extraKey(job)));
+          }
+        },
+        controller.signal
+      );
+    } catch (err) {
+      if (!isAbortError(err)) throw err;
+    } finally {
+      runsRef.current.delete(controller);
+      setPendingExtras([]);
     }
+  };
 
-    setCurrentStep('done');
+  const selectVariant = (angle: SimulationAngle, index: number) => {
+    updateResult(angle, (r) =>
+      r.variants[index] ? { ...r, selectedVariant: index, image: r.variants[index] } : r
+    );
   };
 
   // --- Reset ---
 
   const resetAll = () => {
+    abortAllRuns();
     setCurrentStep('upload');
-    setAngleImages(EMPTY_IMAGES);
+    setAnglePhotos(EMPTY_PHOTOS);
     setDrawings(EMPTY_DRAWINGS);
-    setResults(makeInitialResults());
-    setActiveDrawingAngle('frontal');
+    setHistories(EMPTY_HISTORIES);
+    setCalibrations(EMPTY_CALIBRATIONS);
+    setHairProfiles(EMPTY_HAIR);
+    setResults(makeInitialResults(procedure));
+    setActiveDrawingAngle(angles[0]);
+    setNotes('');
+    // Next photo starts a new session; this one stays in the list
+    setSession(null);
+  };
+
+  // --- Presentation ---
+
+  const presentationItems: PresentationItem[] = results.flatMap((r) => {
+    const before = angleImages[r.angle];
+    return r.status === 'success' && r.image && before ? [{ label: r.label, before, after: r.image }] : [];
+  });
+
+  const openPresentation = (angle?: SimulationAngle) => {
+    const label = angle ? ANGLE_CONFIG[angle].label : null;
+    setPresentationIndex(Math.max(0, presentationItems.findIndex((item) => item.label === label)));
+  };
+
+  // --- Report ---
+
+  const exportReport = async () => {
+    const report: ConsultationReport = {
+      patient,
+      date: session?.createdAt ?? Date.now(),
+      procedure: PROCEDURE_CONFIG[procedure].label,
+      densityRange,
+      notes,
+      angles: results.flatMap((r) => {
+        const before = angleImages[r.angle];
+        if (!before || !drawings[r.angle].compositeDataUrl) return [];
+        const estimate = getEstimate(r.angle);
+        const timeline = r.status === 'success'
+          ? GROWTH_STAGES.flatMap((stage) => {
+              const image = stageImage(r, stage);
+              return image ? [{ label: GROWTH_STAGE_LABELS[stage], image }] : [];
+            })
+          : [];
+        return [{
+          label: r.label,
+          before,
+          marked: drawings[r.angle].compositeDataUrl,
+          after: r.status === 'success' ? r.image : null,
+          areaCm2: estimate?.area ?? null,
+          grafts: estimate?.grafts ?? null,
+          // Only worth a row once an intermediate stage exists
+          timeline: timeline.length > 1 ? timeline : undefined,
+        }];
+      }),
+    };
+
+    setIsExporting(true);
+    try {
+      const blob = await buildConsultationReport(report);
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = reportFileName(report);
+      link.click();
+      setTimeout(() => URL.revokeObjectURL(url), 1000);
+    } catch (err) {
+      console.error('[Report] Falha ao gerar PDF:', err);
+      window.alert('Nao foi possivel gerar o relatorio.');
+    } finally {
+      setIsExporting(false);
+    }
   };
 
   // --- Helpers ---
@@ -210,15 +1015,110 @@ const HairRestore: React.FC = () => {
       <div className="flex flex-col items-center">
         <div className="w-full max-w-4xl space-y-6">
 
+          {/* Patient */}
+          <div className="space-y-3">
+            <div className="flex items-center gap-3 px-4 py-2.5 rounded-2xl bg-gray-50 border border-gray-100">
+              <div className="flex-1 min-w-0">
+                <p className="text-[10px] font-bold text-gray-400 uppercase tracking-wider">Paciente</p>
+                {patient ? (
+                  <p className="text-xs font-black text-[#1D4998] truncate">
+                    {patient.name}
+                    {describePatient(patient) && (
+                      <span className="font-normal text-gray-500"> · {describePatient(patient)}</span>
+                    )}
+                  </p>
+                ) : (
+                  <p className="text-xs text-gray-400">Nenhum paciente selecionado</p>
+                )}
+              </div>
+              <button
+                onClick={() => setShowPatients(!showPatients)}
+                disabled={currentStep === 'processing'}
+                className="px-3 py-2 rounded-xl font-black text-[10px] uppercase tracking-wider bg-white border border-gray-200 text-[#1D4998] hover:bg-gray-100 transition-all disabled:opacity-40"
+              >
+                {showPatients ? 'Fechar' : patient ? 'Trocar' : 'Pacientes'}
+              </button>
+            </div>
+            {showPatients && currentStep !== 'processing' && (
+              <PatientManager
+                patients={patients}
+                sessions={savedSessions}
+                activePatientId={patientId}
+                activeSessionId={session?.id ?? null}
+                onSelect={(selected) => {
+                  setPatientId(selected?.id ?? null);
+                  setShowPatients(false);
+                }}
+                onSave={handleSavePatient}
+                onDelete={handleDeletePatient}
+                onOpenSession={(id) => {
+                  openSession(id);
+                  setShowPatients(false);
+                }}
+                onDeleteSession={removeSession}
+              />
+            )}
+          </div>
+
           {/* ================================================================
               STEP: UPLOAD
           ================================================================ */}
           {currentStep === 'upload' && (
             <div className="space-y-6 animate-fade-in">
-              <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
-                {ANGLES.map((angle) => {
+              {/* Continue previous session */}
+              {resumeCandidate && !session && uploadedCount === 0 && (
+                <div className="flex items-center gap-3 p-3 rounded-2xl border-2 border-[#57BEB7]/30 bg-[#57BEB7]/5 animate-fade-in">
+                  {resumeCandidate.thumbnail && (
+                    <img src={resumeCandidate.thumbnail} alt="" className="w-12 h-12 rounded-lg object-cover flex-shrink-0" />
+                  )}
+                  <div className="flex-1 min-w-0">
+                    <p className="text-xs font-black text-[#1D4998] uppercase tracking-wider">
+                      Continuar sessao anterior?
+                    </p>
+                    <p className="text-[10px] text-gray-500 truncate">
+                      {formatSessionDate(resumeCandidate.updatedAt)} · {describeSession(resumeCandidate)}
+                    </p>
+                  </div>
+                  <button
+                    onClick={() => openSession(resumeCandidate.id)}
+                    className="px-3 py-2 rounded-xl font-black text-[10px] uppercase tracking-wider bg-[#57BEB7] text-white hover:bg-[#48a9a3] shadow-md transition-all"
+                  >
+                    Continuar
+                  </button>
+                  <button
+                    onClick={() => setResumeCandidate(null)}
+                    className="px-3 py-2 rounded-xl font-black text-[10px] uppercase tracking-wider bg-gray-100 text-gray-500 hover:bg-gray-200 transition-all"
+                  >
+                    Nova Sessao
+                  </button>
+                </div>
+              )}
+
+              {/* Procedure */}
+              <div className="flex items-center justify-center gap-2">
+                <span className="text-[10px] font-bold text-gray-400 uppercase tracking-wider">
+                  Procedimento
+                </span>
+                {PROCEDURES.map((p) => (
+                  <button
+                    key={p}
+                    onClick={() => changeProcedure(p)}
+                    className={`px-4 py-2 rounded-xl text-[10px] font-black uppercase tracking-wider transition-all ${p === procedure
+                      ? 'bg-[#1D4998] text-white shadow-md'
+                      : 'bg-gray-100 text-gray-500 hover:bg-gray-200'
+                      }`}
+                  >
+                    {PROCEDURE_CONFIG[p].label}
+                  </button>
+                ))}
+              </div>
+
+              <div className="grid grid-cols-2 sm:grid-cols-3 gap-4">
+                {angles.map((angle) => {
                   const config = ANGLE_CONFIG[angle];
                   const img = angleImages[angle];
+                  const quality = img ? qualityOf(angle) : null;
+                  const blocked = isPhotoBlocked(quality);
 
                   return (
                     <div key={angle} className="flex flex-col space-y-2">
@@ -230,7 +1130,15 @@ const HairRestore: React.FC = () => {
                       </div>
 
                       {img ? (
-                        <div className="relative rounded-xl overflow-hidden aspect-square shadow-md border-2 border-[#57BEB7]/30 group">
+                        <div
+                          className={`relative rounded-xl overflow-hidden aspect-square shadow-md border-2 group ${
+                            blocked
+                              ? 'border-red-400'
+                              : quality?.issues.length
+                                ? 'border-amber-400'
+                                : 'border-[#57BEB7]/30'
+                          }`}
+                        >
                           <img src={img} alt={config.label} className="w-full h-full object-cover" />
                           <button
                             onClick={() => removeImage(angle)}
@@ -257,23 +1165,78 @@ const HairRestore: React.FC = () => {
                           <input
                             type="file"
                             className="hidden"
-                            accept="image/*"
+                            accept="image/*,.heic,.heif"
                             onChange={(e) => handleFileChange(angle, e)}
                           />
                         </label>
                       )}
+                      {quality && quality.issues.length > 0 && (
+                        <ul className="space-y-0.5">
+                          {quality.issues.map((issue) => (
+                            <li
+                              key={issue.kind}
+                              className={`text-[10px] font-bold ${issue.blocking ? 'text-red-500' : 'text-amber-600'}`}
+                            >
+                              {issue.message}
+                            </li>
+                          ))}
+                        </ul>
+                      )}
+                      {!img && (
+                        <button
+                          onClick={() => setCameraAngle(angle)}
+                          className="py-2 rounded-xl font-black text-[10px] uppercase tracking-wider bg-gray-100 text-[#1D4998] hover:bg-gray-200 transition-all flex items-center justify-center gap-1.5"
+                        >
+                          <svg className="w-3.5 h-3.5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M3 9a2 2 0 012-2h.93a2 2 0 001.664-.89l.812-1.22A2 2 0 0110.07 4h3.86a2 2 0 011.664.89l.812 1.22A2 2 0 0018.07 7H19a2 2 0 012 2v9a2 2 0 01-2 2H5a2 2 0 01-2-2V9z" />
+                            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M15 13a3 3 0 11-6 0 3 3 0 016 0z" />
+                          </svg>
+                          Usar Camera
+                        </button>
+                      )}
                     </div>
                   );
                 })}
               </div>
 
               {uploadedCount > 0 && (
-                <button
-                  onClick={() => setCurrentStep('draw')}
-                  className="w-full py-4 bg-[#57BEB7] text-white rounded-2xl font-black text-sm shadow-xl shadow-[#57BEB7]/20 hover:bg-[#48a9a3] transition-all flex items-center justify-center gap-2 animate-slide-up uppercase tracking-wider"
-                >
-                  Proximo: Marcar Areas ({uploadedCount} {uploadedCount === 1 ? 'foto' : 'fotos'})
-                </button>
+                <div className="space-y-2">
+                  <button
+                    onClick={goToDraw}
+                    disabled={blockedAngles.length > 0 || checkingAngles.length > 0}
+                    className="w-full py-4 bg-[#57BEB7] text-white rounded-2xl font-black text-sm shadow-xl shadow-[#57BEB7]/20 hover:bg-[#48a9a3] transition-all flex items-center justify-center gap-2 animate-slide-up uppercase tracking-wider disabled:opacity-40 disabled:cursor-not-allowed"
+                  >
+                    {checkingAngles.length > 0
+                      ? 'Analisando fotos...'
+                      : `Proximo: Marcar Areas (${uploadedCount} ${uploadedCount === 1 ? 'foto' : 'fotos'})`}
+                  </button>
+                  {blockedAngles.length > 0 && (
+                    <p className="text-[10px] text-red-500 font-bold text-center">
+                      Substitua as fotos abaixo da resolucao minima:{' '}
+                      {blockedAngles.map((a) => ANGLE_CONFIG[a].label).join(', ')}
+                    </p>
+                  )}
+                </div>
+              )}
+
+              {/* Saved sessions */}
+              {savedSessions.length > 0 && (
+                <div className="space-y-3">
+                  <button
+                    onClick={() => setShowSessions(!showSessions)}
+                    className="w-full py-2.5 border-2 border-gray-200 text-gray-500 rounded-2xl font-black text-[10px] uppercase tracking-wider hover:bg-gray-50 transition-all"
+                  >
+                    {showSessions ? 'Ocultar Sessoes Salvas' : `Sessoes Salvas (${savedSessions.length})`}
+                  </button>
+                  {showSessions && (
+                    <SessionList
+                      sessions={savedSessions}
+                      activeId={session?.id ?? null}
+                      onOpen={openSession}
+                      onDelete={removeSession}
+                    />
+                  )}
+                </div>
               )}
             </div>
           )}
@@ -285,16 +1248,16 @@ const HairRestore: React.FC = () => {
             <div className="space-y-5 animate-fade-in">
               <div className="text-center space-y-1">
                 <p className="text-sm font-bold text-[#1D4998]">
-                  Pinte toda a area onde deseja adicionar cabelo
+                  {PROCEDURE_CONFIG[procedure].drawTitle}
                 </p>
                 <p className="text-[10px] text-gray-400 uppercase tracking-wider">
-                  Preencha completamente a area calva com a cor vermelha — o cabelo sera gerado exatamente sobre a marcacao
+                  {PROCEDURE_CONFIG[procedure].drawHint}
                 </p>
               </div>
 
               {/* Angle tabs */}
-              <div className="flex gap-2 justify-center">
-                {ANGLES.map((angle) => {
+              <div className="flex flex-wrap gap-2 justify-center">
+                {angles.map((angle) => {
                   if (!angleImages[angle]) return null;
                   const isActive = activeDrawingAngle === angle;
                   const hasDraw = drawings[angle].compositeDataUrl !== null;
@@ -316,22 +1279,163 @@ const HairRestore: React.FC = () => {
                 })}
               </div>
 
+              {/* Generation backend for the active angle */}
+              <div className="flex items-center justify-center gap-2">
+                <span className="text-[10px] font-bold text-gray-400 uppercase tracking-wider">
+                  Motor
+                </span>
+                <select
+                  value={angleProviders[activeDrawingAngle]}
+                  onChange={(e) =>
+                    setAngleProviders((prev) => ({
+                      ...prev,
+                      [activeDrawingAngle]: e.target.value as ImageProviderId,
+                    }))
+                  }
+                  className="px-2 py-1 rounded-lg bg-gray-100 text-[10px] font-bold text-[#1D4998] uppercase tracking-wider"
+                >
+                  {PROVIDER_IDS.map((id) => (
+                    <option key={id} value={id}>
+                      {PROVIDER_LABELS[id]}
+                    </option>
+                  ))}
+                </select>
+                <span className="text-[10px] font-bold text-gray-400 uppercase tracking-wider ml-2">
+                  Variacoes
+                </span>
+                <select
+                  value={variantCount}
+                  onChange={(e) => setVariantCount(Number(e.target.value))}
+                  className="px-2 py-1 rounded-lg bg-gray-100 text-[10px] font-bold text-[#1D4998] uppercase tracking-wider"
+                >
+                  {VARIANT_OPTIONS.map((n) => (
+                    <option key={n} value={n}>
+                      {n}
+                    </option>
+                  ))}
+                </select>
+                <span className="text-[10px] font-bold text-gray-400 uppercase tracking-wider ml-2">
+                  Cenario
+                </span>
+                <select
+                  value={densityLevel}
+                  onChange={(e) => setDensityLevel(e.target.value as DensityLevel)}
+                  className="px-2 py-1 rounded-lg bg-gray-100 text-[10px] font-bold text-[#1D4998] uppercase tracking-wider"
+                >
+                  {DENSITY_LEVELS.map((level) => (
+                    <option key={level} value={level}>
+                      {DENSITY_LEVEL_LABELS[level]} (~{DENSITY_LEVEL_FU[procedure][level]} UF/cm²)
+                    </option>
+                  ))}
+                </select>
+                {hasReferences && (
+                  <>
+                    <span className="text-[10px] font-bold text-gray-400 uppercase tracking-wider ml-2">
+                      Referencia
+                    </span>
+                    <select
+                      value={referenceMode}
+                      onChange={(e) => setReferenceMode(e.target.value as ReferenceMode)}
+                      title="Anexa um caso real de antes/depois como exemplo (somente Gemini)"
+                      className="px-2 py-1 rounded-lg bg-gray-100 text-[10px] font-bold text-[#1D4998] uppercase tracking-wider"
+                    >
+                      {REFERENCE_MODES.map((mode) => (
+                        <option key={mode} value={mode}>
+                          {REFERENCE_MODE_LABELS[mode]}
+                        </option>
+                      ))}
+                    </select>
+                  </>
+                )}
+              </div>
+
+              {/* Density used for the graft estimate */}
+              <div className="flex items-center justify-center gap-2">
+                <span className="text-[10px] font-bold text-gray-400 uppercase tracking-wider">
+                  Densidade
+                </span>
+                <input
+                  type="number"
+                  min="1"
+                  value={densityRange.min}
+                  onChange={(e) => updateDensity('min', Number(e.target.value))}
+                  className="w-14 px-2 py-1 rounded-lg bg-gray-100 text-[10px] font-bold text-[#1D4998] text-right"
+                />
+                <span className="text-[10px] font-bold text-gray-400">–</span>
+                <input
+                  type="number"
+                  min="1"
+                  value={densityRange.max}
+                  onChange={(e) => updateDensity('max', Number(e.target.value))}
+                  className="w-14 px-2 py-1 rounded-lg bg-gray-100 text-[10px] font-bold text-[#1D4998] text-right"
+                />
+                <span className="text-[10px] font-bold text-gray-400 uppercase tracking-wider">
+                  UF/cm²
+                </span>
+              </div>
+
               {/* Active drawing canvas */}
               {angleImages[activeDrawingAngle] && (
                 <DrawingCanvas
                   key={activeDrawingAngle}
                   photoDataUrl={angleImages[activeDrawingAngle]!}
-                  onDrawingComplete={(drawUrl, compUrl) =>
-                    handleDrawingComplete(activeDrawingAngle, drawUrl, compUrl)
+                  history={histories[activeDrawingAngle]}
+                  onHistoryChange={(history) =>
+                    setHistories((prev) => ({ ...prev, [activeDrawingAngle]: history }))
+                  }
+                  onDrawingComplete={(drawUrl, compUrl, maskPixels) =>
+                    handleDrawingComplete(activeDrawingAngle, drawUrl, compUrl, maskPixels)
                   }
                   width={500}
+                  symmetry={FACING_ANGLES.includes(activeDrawingAngle)}
+                  calibration={calibrations[activeDrawingAngle]}
+                  onCalibrationChange={(calibration) =>
+                    setCalibrations((prev) => ({ ...prev, [activeDrawingAngle]: calibration }))
+                  }
+                  interpupillary={FACING_ANGLES.includes(activeDrawingAngle)}
+                  densityRange={densityRange}
+                  onPickHair={(point) => pickHair(activeDrawingAngle, point)}
+                  hairSample={hairProfiles[activeDrawingAngle]}
                 />
               )}
 
+              {/* Hair colour used for the pre-fill and the prompt */}
+              {angleImages[activeDrawingAngle] && (
+                <div className="flex items-center gap-3 px-3 py-2 rounded-xl bg-gray-50 border border-gray-100">
+                  <span className="text-[10px] font-bold text-gray-400 uppercase tracking-wider">Cabelo</span>
+                  {hairProfiles[activeDrawingAngle] ? (
+                    <>
+                      <div className="flex">
+                        {hairProfiles[activeDrawingAngle]!.palette.map((hex, i) => (
+                          <span key={i} className="w-5 h-5 first:rounded-l-md last:rounded-r-md" style={{ backgroundColor: hex }} />
+                        ))}
+                      </div>
+                      <span className="flex-1 text-[10px] text-[#1D4998] font-bold">
+                        {HAIR_COLOR_LABELS[classifyHairColor(hairProfiles[activeDrawingAngle]!.palette)]} ·{' '}
+                        {HAIR_TEXTURE_LABELS[hairProfiles[activeDrawingAngle]!.texture]}
+                        <span className="font-normal text-gray-400">
+                          {' '}({hairProfiles[activeDrawingAngle]!.source === 'picked' ? 'amostra manual' : 'detectado'})
+                        </span>
+                      </span>
+                      <button
+                        onClick={() => setHairProfiles((prev) => ({ ...prev, [activeDrawingAngle]: null }))}
+                        className="text-[10px] font-bold text-gray-400 hover:text-red-500 uppercase"
+                      >
+                        Limpar
+                      </button>
+                    </>
+                  ) : (
+                    <span className="text-[10px] text-gray-500">
+                      Detectado ao confirmar a marcacao, ou use "Cor do Cabelo" no editor.
+                    </span>
+                  )}
+                </div>
+              )}
+
               {/* Preview of drawn composites */}
               {drawnCount > 0 && (
-                <div className="grid grid-cols-2 gap-3">
-                  {ANGLES.map((angle) => {
+                <div className="grid grid-cols-2 sm:grid-cols-3 gap-3">
+                  {angles.map((angle) => {
                     const comp = drawings[angle].compositeDataUrl;
                     if (!comp) return null;
                     return (
@@ -381,69 +1485,173 @@ const HairRestore: React.FC = () => {
                 {results.map((r) => {
                   const original = angleImages[r.angle];
                   if (!original) return null;
+                  const angleRunning = isAngleRunning(r);
+                  const doneVariants = r.variants.filter((v) => v !== null).length;
+                  const estimate = getEstimate(r.angle);
+                  const baselinePhoto = firstVisitImages[r.angle];
+                  const baselineResult = firstVisit?.results.find((fr) => fr.angle === r.angle)?.image ?? null;
 
                   return (
                     <div key={r.angle} className="space-y-2">
-                      <span className="text-xs font-black text-[#1D4998] uppercase tracking-wider">
-                        {r.label}
-                      </span>
-                      <div className="grid grid-cols-2 gap-2">
-                        {/* Before (original) */}
-                        <div className="relative rounded-xl overflow-hidden aspect-square border-2 border-gray-200 shadow-sm">
-                          <img src={original} alt="Antes" className="w-full h-full object-cover" />
-                          <div className="absolute bottom-1 left-1 bg-gray-800/70 text-white text-[8px] font-bold px-2 py-0.5 rounded-full uppercase">
-                            Antes
-                          </div>
+                      <div className="flex items-center justify-between">
+                        <span className="text-xs font-black text-[#1D4998] uppercase tracking-wider">
+                          {r.label}
+                        </span>
+                        {r.startedAt !== undefined && (
+                          <span className="text-[9px] font-bold text-gray-400 uppercase tracking-wider">
+                            {r.variants.length > 1 && `${doneVariants}/${r.variants.length} · `}
+                            {formatElapsed(r.elapsedMs ?? Math.max(0, now - r.startedAt))}
+                          </span>
+                        )}
+                      </div>
+                      {estimate && (
+                        <p className="text-[10px] font-bold text-gray-500">
+                          {formatArea(estimate.area)} · {formatGrafts(estimate.grafts)}
+                        </p>
+                      )}
+                      {r.status === 'success' && r.image ? (
+                        <div className="relative">
+                          <BeforeAfterCompare
+                            before={original}
+                            after={r.image}
+                            className="aspect-square rounded-xl border-2 border-[#57BEB7]/20 shadow-sm animate-fade-in"
+                          />
+                          <button
+                            onClick={() => openPresentation(r.angle)}
+                            title="Tela cheia"
+                            className="absolute top-1 right-1 bg-gray-800/60 text-white p-1.5 rounded-full hover:bg-gray-800/80 transition-colors"
+                          >
+                            <svg className="w-3 h-3" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M4 8V4h4M20 8V4h-4M4 16v4h4M20 16v4h-4" />
+                            </svg>
+                          </button>
                         </div>
-
-                        {/* After (result) */}
-                        <div className="relative rounded-xl overflow-hidden aspect-square border-2 border-[#57BEB7]/20 bg-gray-50">
-                          {r.status === 'loading' && (
-                            <div className="flex flex-col items-center justify-center h-full space-y-2">
-                              <div className="w-10 h-10 border-4 border-[#57BEB7]/20 border-t-[#57BEB7] rounded-full animate-spin" />
-                              <p className="text-[#1D4998] font-black text-[10px] uppercase tracking-widest animate-pulse">
-                                Gerando...
-                              </p>
+                      ) : (
+                        <div className="grid grid-cols-2 gap-2">
+                          {/* Before (original) */}
+                          <div className="relative rounded-xl overflow-hidden aspect-square border-2 border-gray-200 shadow-sm">
+                            <img src={original} alt="Antes" className="w-full h-full object-cover" />
+                            <div className="absolute bottom-1 left-1 bg-gray-800/70 text-white text-[8px] font-bold px-2 py-0.5 rounded-full uppercase">
+                              Antes
                             </div>
-                          )}
+                          </div>
 
-                          {r.status === 'success' && r.image && (
-                            <>
-                              <img src={r.image} alt="Resultado" className="w-full h-full object-cover animate-fade-in" />
-                              <div className="absolute bottom-1 left-1 bg-[#57BEB7]/80 text-white text-[8px] font-bold px-2 py-0.5 rounded-full uppercase">
-                                Depois
+                          {/* After (result) */}
+                          <div className="relative rounded-xl overflow-hidden aspect-square border-2 border-[#57BEB7]/20 bg-gray-50">
+                            {r.status === 'loading' && (
+                              <div className="flex flex-col items-center justify-center h-full space-y-2">
+                                <div className="w-10 h-10 border-4 border-[#57BEB7]/20 border-t-[#57BEB7] rounded-full animate-spin" />
+                                <p className="text-[#1D4998] font-black text-[10px] uppercase tracking-widest animate-pulse">
+                                  Gerando...
+                                </p>
                               </div>
-                            </>
-                          )}
+                            )}
 
-                          {r.status === 'error' && (
-                            <div className="flex flex-col items-center justify-center h-full space-y-2 p-3">
-                              <svg className="w-7 h-7 text-red-400" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M12 9v2m0 4h.01M21 12a9 9 0 11-18 0 9 9 0 0118 0z" />
-                              </svg>
-                              <p className="text-red-500 font-bold text-[9px] text-center">Erro</p>
-                              {r.errorMessage && (
-                                <p className="text-gray-400 text-[8px] text-center">{r.errorMessage}</p>
-                              )}
-                            </div>
-                          )}
+                            {r.status === 'error' && (
+                              <div className="flex flex-col items-center justify-center h-full space-y-2 p-3">
+                                <svg className="w-7 h-7 text-red-400" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M12 9v2m0 4h.01M21 12a9 9 0 11-18 0 9 9 0 0118 0z" />
+                                </svg>
+                                <p className="text-red-500 font-bold text-[9px] text-center">
+                                  {r.errorCategory ? ERROR_LABELS[r.errorCategory] : 'Erro'}
+                                </p>
+                                {r.errorMessage && (
+                                  <p className="text-gray-400 text-[8px] text-center">{r.errorMessage}</p>
+                                )}
+                                {r.errorCategory === 'safety' && (
+                                  <p className="text-gray-400 text-[8px] text-center">
+                                    Ajuste a marcacao ou use outra foto
+                                  </p>
+                                )}
+                                <button
+                                  onClick={() => retryAngle(r.angle)}
+                                  className={`mt-1 px-3 py-1.5 rounded-lg font-black text-[9px] uppercase tracking-wider transition-all ${!r.errorCategory || RETRYABLE_CATEGORIES.includes(r.errorCategory)
+                                    ? 'bg-[#57BEB7] text-white hover:bg-[#48a9a3] shadow-sm'
+                                    : 'bg-gray-100 text-gray-500 hover:bg-gray-200'
+                                    }`}
+                                >
+                                  Tentar novamente
+                                </button>
+                              </div>
+                            )}
 
-                          {r.status === 'pending' && (
-                            <div className="flex items-center justify-center h-full">
-                              <p className="text-gray-300 text-[10px] font-bold uppercase">Aguardando</p>
-                            </div>
+                            {r.status === 'pending' && (
+                              <div className="flex items-center justify-center h-full">
+                                <p className="text-gray-300 text-[10px] font-bold uppercase">Aguardando</p>
+                              </div>
+                            )}
+                          </div>
+                        </div>
+                      )}
+
+                      {/* Follow-up: same angle at the patient's first visit */}
+                      {firstVisit && baselinePhoto && (
+                        <div className="flex items-center gap-2 p-2 rounded-xl bg-gray-50 border border-gray-100">
+                          <div className="flex-1 min-w-0">
+                            <p className="text-[9px] font-black text-[#1D4998] uppercase tracking-wider">
+                              Primeira consulta
+                            </p>
+                            <p className="text-[9px] text-gray-400">{formatSessionDate(firstVisit.createdAt)}</p>
+                          </div>
+                          <img src={baselinePhoto} alt="Primeira consulta — antes" className="w-14 h-14 rounded-lg object-cover" />
+                          {baselineResult && (
+                            <img src={baselineResult} alt="Primeira consulta — simulacao" className="w-14 h-14 rounded-lg object-cover" />
                           )}
                         </div>
-                      </div>
+                      )}
+
+                      {/* Variant picker */}
+                      {r.variants.length > 1 && (
+                        <div className="flex gap-2">
+                          {r.variants.map((variant, i) => {
+                            const isSelected = variant !== null && i === r.selectedVariant;
+                            return (
+                              <button
+                                key={i}
+                                onClick={() => selectVariant(r.angle, i)}
+                                disabled={!variant}
+                                className={`relative w-14 h-14 rounded-lg overflow-hidden border-2 transition-all ${isSelected
+                                  ? 'border-[#1D4998] shadow-md'
+                                  : 'border-gray-200 hover:border-[#57BEB7]'
+                                  }`}
+                              >
+                                {variant ? (
+                                  <img src={variant} alt={`Variacao ${i + 1}`} className="w-full h-full object-cover" />
+                                ) : (
+                                  <div className="flex items-center justify-center w-full h-full bg-gray-50">
+                                    {angleRunning ? (
+                                      <div className="w-4 h-4 border-2 border-[#57BEB7]/20 border-t-[#57BEB7] rounded-full animate-spin" />
+                                    ) : (
+                                      <span className="text-red-300 text-[10px] font-bold">!</span>
+                                    )}
+                                  </div>
+                                )}
+                                <span className="absolute top-0.5 left-0.5 bg-gray-800/60 text-white text-[7px] font-bold px-1 rounded">
+                                  {i + 1}
+                                </span>
+                                {r.variantReferences?.[i] && (
+                                  <span
+                                    title={`Referencia: ${r.variantReferences[i]}`}
+                                    className="absolute bottom-0.5 right-0.5 bg-[#57BEB7]/90 text-white text-[7px] font-bold px-1 rounded uppercase"
+                                  >
+                                    Ref
+                                  </span>
+                                )}
+                              </button>
+                            );
+                          })}
+                        </div>
+                      )}
 
                       {/* Download */}
                       {r.status === 'success' && r.image && (
                         <a
                           href={r.image}
-                          download={`homenz-simulacao-${r.angle}.png`}
+                          download={`homenz-simulacao-${r.angle}.${r.image.startsWith('data:image/png') ? 'png' : 'jpg'}`}
                           className="block py-2 bg-[#1D4998] text-white text-center font-black uppercase tracking-widest text-[10px] rounded-xl hover:bg-[#153a7a] transition-all shadow-md"
                         >
                           Salvar {r.label}
+                          {r.variants.length > 1 && ` (Variacao ${r.selectedVariant + 1})`}
                         </a>
                       )}
                     </div>
@@ -451,9 +1659,153 @@ const HairRestore: React.FC = () => {
                 })}
               </div>
 
+              {/* Density scenarios side by side */}
+              {currentStep === 'done' && results.some((r) => r.status === 'success' && r.image) && (
+                <div className="space-y-3 p-4 rounded-2xl bg-gray-50 border border-gray-100">
+                  <div className="flex items-center justify-between gap-3">
+                    <div>
+                      <p className="text-xs font-black text-[#1D4998] uppercase tracking-wider">Cenarios de Densidade</p>
+                      <p className="text-[10px] text-gray-400">
+                        O resultado real depende da area doadora disponivel.
+                      </p>
+                    </div>
+                    {missingScenarios.length > 0 && (
+                      <button
+                        onClick={() => generateExtras(missingScenarios)}
+                        disabled={pendingExtras.length > 0 || isRunning}
+                        className="px-3 py-2 rounded-xl font-black text-[10px] uppercase tracking-wider bg-[#57BEB7] text-white hover:bg-[#48a9a3] shadow-sm transition-all disabled:opacity-40"
+                      >
+                        {pendingExtras.length > 0 ? 'Gerando...' : `Gerar Cenarios (${missingScenarios.length})`}
+                      </button>
+                    )}
+                  </div>
+
+                  {results.map((r) => {
+                    if (r.status !== 'success' || !r.image) return null;
+                    const area = getEstimate(r.angle)?.area ?? null;
+                    return (
+                      <div key={r.angle} className="space-y-1">
+                        <p className="text-[10px] font-black text-gray-500 uppercase tracking-wider">{r.label}</p>
+                        <div className="grid grid-cols-3 gap-2">
+                          {DENSITY_LEVELS.map((level) => {
+                            const image = scenarioImage(r, level);
+                            const pending = pendingExtras.includes(extraKey({ angle: r.angle, density: level }));
+                            return (
+                              <div key={level} className="space-y-1">
+                                <div className="relative rounded-xl overflow-hidden aspect-square border-2 border-gray-200 bg-white">
+                                  {image ? (
+                                    <img src={image} alt={DENSITY_LEVEL_LABELS[level]} className="w-full h-full object-cover" />
+                                  ) : (
+                                    <div className="flex items-center justify-center h-full">
+                                      {pending ? (
+                                        <div className="w-6 h-6 border-2 border-[#57BEB7]/20 border-t-[#57BEB7] rounded-full animate-spin" />
+                                      ) : (
+                                        <span className="text-gray-300 text-[10px] font-bold">—</span>
+                                      )}
+                                    </div>
+                                  )}
+                                </div>
+                                <p className="text-[9px] font-black text-[#1D4998] uppercase tracking-wider text-center">
+                                  {DENSITY_LEVEL_LABELS[level]}
+                                </p>
+                                <p className="text-[9px] text-gray-400 text-center">
+                                  ~{DENSITY_LEVEL_FU[procedure][level]} UF/cm²
+                                  {area !== null && ` · ${Math.round(area * DENSITY_LEVEL_FU[procedure][level]).toLocaleString('pt-BR')} UF`}
+                                </p>
+                              </div>
+                            );
+                          })}
+                        </div>
+                      </div>
+                    );
+                  })}
+                </div>
+              )}
+
+              {/* Growth timeline */}
+              {currentStep === 'done' && results.some((r) => r.status === 'success' && r.image) && (
+                <div className="space-y-3 p-4 rounded-2xl bg-gray-50 border border-gray-100">
+                  <div className="flex items-center justify-between gap-3">
+                    <div>
+                      <p className="text-xs font-black text-[#1D4998] uppercase tracking-wider">Linha do Tempo</p>
+                      <p className="text-[10px] text-gray-400">
+                        Evolucao esperada: queda inicial, crescimento ralo, densidade parcial e resultado final.
+                      </p>
+                    </div>
+                    {missingStages.length > 0 && (
+                      <button
+                        onClick={() => generateExtras(missingStages)}
+                        disabled={pendingExtras.length > 0 || isRunning}
+                        className="px-3 py-2 rounded-xl font-black text-[10px] uppercase tracking-wider bg-[#57BEB7] text-white hover:bg-[#48a9a3] shadow-sm transition-all disabled:opacity-40"
+                      >
+                        {pendingExtras.length > 0 ? 'Gerando...' : `Gerar Linha do Tempo (${missingStages.length})`}
+                      </button>
+                    )}
+                  </div>
+
+                  <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                    {results.map((r) => {
+                      const before = angleImages[r.angle];
+                      if (r.status !== 'success' || !r.image || !before) return null;
+                      return (
+                        <GrowthTimeline
+                          key={r.angle}
+                          angle={r.angle}
+                          label={r.label}
+                          before={before}
+                          stages={Object.fromEntries(GROWTH_STAGES.map((stage) => [stage, stageImage(r, stage)]))}
+                          pending={GROWTH_STAGES.filter((stage) =>
+                            pendingExtras.includes(extraKey({ angle: r.angle, density: r.density ?? 'full', stage }))
+                          )}
+                        />
+                      );
+                    })}
+                  </div>
+                </div>
+              )}
+
               {/* Actions */}
+              {currentStep === 'processing' && (
+                <button
+                  onClick={cancelPipeline}
+                  className="w-full py-3 border-2 border-red-200 text-red-500 rounded-2xl font-black text-[10px] uppercase tracking-wider hover:bg-red-50 transition-all"
+                >
+                  Cancelar Simulacao
+                </button>
+              )}
+              {currentStep === 'done' && (
+                <div className="space-y-3">
+                  <div className="space-y-1">
+                    <span className="text-[10px] font-bold text-gray-400 uppercase tracking-wider">
+                      Observacoes do consultor
+                    </span>
+                    <textarea
+                      value={notes}
+                      onChange={(e) => setNotes(e.target.value)}
+                      rows={3}
+                      placeholder="Incluidas no relatorio entregue ao paciente"
+                      className="w-full px-3 py-2 rounded-xl bg-gray-50 border border-gray-200 text-xs text-gray-700 focus:outline-none focus:border-[#57BEB7]"
+                    />
+                  </div>
+                  <button
+                    onClick={exportReport}
+                    disabled={isExporting}
+                    className="w-full py-3 bg-[#1D4998] text-white rounded-2xl font-black text-[10px] uppercase tracking-wider shadow-md hover:bg-[#153a7a] transition-all disabled:opacity-60"
+                  >
+                    {isExporting ? 'Gerando Relatorio...' : 'Baixar Relatorio PDF'}
+                  </button>
+                </div>
+              )}
               {currentStep === 'done' && (
                 <div className="flex gap-3">
+                  {presentationItems.length > 0 && (
+                    <button
+                      onClick={() => openPresentation()}
+                      className="flex-1 py-3 bg-[#57BEB7] text-white rounded-2xl font-black text-[10px] uppercase tracking-wider shadow-md hover:bg-[#48a9a3] transition-all"
+                    >
+                      Apresentar
+                    </button>
+                  )}
                   <button
                     onClick={() => setCurrentStep('draw')}
                     className="flex-1 py-3 border-2 border-gray-200 text-gray-500 rounded-2xl font-black text-[10px] uppercase tracking-wider hover:bg-gray-50 transition-all"
@@ -473,6 +1825,24 @@ const HairRestore: React.FC = () => {
 
         </div>
       </div>
+
+      {cameraAngle && (
+        <CameraCapture
+          angle={cameraAngle}
+          label={ANGLE_CONFIG[cameraAngle].label}
+          instruction={ANGLE_CONFIG[cameraAngle].instruction}
+          onCapture={handleCameraCapture}
+          onClose={() => setCameraAngle(null)}
+        />
+      )}
+
+      {presentationIndex !== null && presentationItems.length > 0 && (
+        <PresentationView
+          items={presentationItems}
+          initialIndex={presentationIndex}
+          onClose={() => setPresentationIndex(null)}
+        />
+      )}
     </div>
   );
 };
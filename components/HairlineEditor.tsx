@@ -0,0 +1,120 @@
+import React, { useRef } from 'react';
+import { hairlineOutline, sampleHairlineCurve, toSvgPath } from '../services/drawing';
+import type { Point } from '../types';
+
+interface HairlineEditorProps {
+  /** Natural image size — the SVG works in image pixels */
+  width: number;
+  height: number;
+  points: Point[];
+  depth: number;
+  direction: 1 | -1;
+  /** Detected distance to the existing hair per curve sample */
+  edge?: number[];
+  /** Handle radius in image pixels (so it stays the same size on screen) */
+  handleRadius: number;
+  onChange: (points: Point[]) => void;
+}
+
+/**
+ * Editable control points over the photo. Click to add a point, drag to move
+ * it, double-click to remove it. The fill itself is previewed by the parent.
+ */
+const HairlineEditor: React.FC<HairlineEditorProps> = ({
+  width,
+  height,
+  points,
+  depth,
+  direction,
+  edge,
+  handleRadius,
+  onChange,
+}) => {
+  const svgRef = useRef<SVGSVGElement>(null);
+  const dragIndexRef = useRef<number | null>(null);
+
+  const toImageCoords = (e: React.PointerEvent): Point => {
+    const rect = svgRef.current!.getBoundingClientRect();
+    return {
+      x: Math.min(width, Math.max(0, ((e.clientX - rect.left) * width) / rect.width)),
+      y: Math.min(height, Math.max(0, ((e.clientY - rect.top) * height) / rect.height)),
+    };
+  };
+
+  const handleBackgroundDown = (e: React.PointerEvent<SVGSVGElement>) => {
+    e.preventDefault();
+    svgRef.current?.setPointerCapture(e.pointerId);
+    dragIndexRef.current = points.length;
+    onChange([...points, toImageCoords(e)]);
+  };
+
+  const handlePointDown = (e: React.PointerEvent<SVGCircleElement>, index: number) => {
+    e.preventDefault();
+    e.stopPropagation();
+    svgRef.current?.setPointerCapture(e.pointerId);
+    dragIndexRef.current = index;
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<SVGSVGElement>) => {
+    const index = dragIndexRef.current;
+    if (index === null) return;
+    const next = [...points];
+    next[index] = toImageCoords(e);
+    onChange(next);
+  };
+
+  const handlePointerUp = () => {
+    dragIndexRef.current = null;
+  };
+
+  const removePoint = (index: number) => {
+    onChange(points.filter((_, i) => i !== index));
+  };
+
+  const curve = sampleHairlineCurve(points);
+  const outline = hairlineOutline({ points, depth, direction, edge });
+
+  return (
+    <svg
+      ref={svgRef}
+      viewBox={`0 0 ${width} ${height}`}
+      preserveAspectRatio="none"
+      className="absolute inset-0 w-full h-full cursor-crosshair"
+      style={{ touchAction: 'none' }}
+      onPointerDown={handleBackgroundDown}
+      onPointerMove={handlePointerMove}
+      onPointerUp={handlePointerUp}
+      onPointerCancel={handlePointerUp}
+    >
+      {outline.length > 0 && (
+        <path
+          d={toSvgPath(outline, true)}
+          fill="none"
+          stroke="white"
+          strokeOpacity={0.6}
+          strokeWidth={handleRadius * 0.25}
+          strokeDasharray={`${handleRadius} ${handleRadius * 0.6}`}
+        />
+      )}
+      {curve.length > 1 && (
+        <path d={toSvgPath(curve)} fill="none" stroke="#1D4998" strokeWidth={handleRadius * 0.4} />
+      )}
+      {points.map((p, i) => (
+        <circle
+          key={i}
+          cx={p.x}
+          cy={p.y}
+          r={handleRadius}
+          fill="white"
+          stroke="#1D4998"
+          strokeWidth={handleRadius * 0.35}
+          className="cursor-move"
+          onPointerDown={(e) => handlePointDown(e, i)}
+          onDoubleClick={() => removePoint(i)}
+        />
+      ))}
+    </svg>
+  );
+};
+
+export default HairlineEditor;
@@ -0,0 +1,227 @@
+import React, { useState } from 'react';
+import SessionList from './SessionList';
+import { createPatientId, matchesPatient, NORWOOD_GRADES } from '../services/patientStore';
+import type { SessionSummary } from '../services/sessionStore';
+import type { NorwoodGrade, Patient } from '../types';
+
+interface PatientManagerProps {
+  patients: Patient[];
+  /** All saved sessions; each patient shows the ones with their id */
+  sessions: SessionSummary[];
+  activePatientId: string | null;
+  activeSessionId: string | null;
+  onSelect: (patient: Patient | null) => void;
+  onSave: (patient: Patient) => void;
+  onDelete: (id: string) => void;
+  onOpenSession: (id: string) => void;
+  onDeleteSession: (id: string) => void;
+}
+
+const makeEmptyPatient = (): Patient => ({
+  id: createPatientId(),
+  name: '',
+  contact: '',
+  age: null,
+  norwood: null,
+  notes: '',
+  createdAt: Date.now(),
+  updatedAt: Date.now(),
+});
+
+export const describePatient = (p: Patient) =>
+  [p.age !== null && `${p.age} anos`, p.norwood && `Norwood ${p.norwood}`, p.contact].filter(Boolean).join(' · ');
+
+const inputClass =
+  'w-full px-3 py-2 rounded-xl bg-gray-50 border border-gray-200 text-xs text-gray-700 focus:outline-none focus:border-[#57BEB7]';
+const labelClass = 'text-[10px] font-bold text-gray-500 uppercase tracking-wider';
+
+/** Search, create and edit patients, and browse their dated consultations */
+const PatientManager: React.FC<PatientManagerProps> = ({
+  patients,
+  sessions,
+  activePatientId,
+  activeSessionId,
+  onSelect,
+  onSave,
+  onDelete,
+  onOpenSession,
+  onDeleteSession,
+}) => {
+  const [query, setQuery] = useState('');
+  const [draft, setDraft] = useState<Patient | null>(null);
+  const [expandedId, setExpandedId] = useState<string | null>(activePatientId);
+
+  const filtered = patients.filter((p) => matchesPatient(p, query));
+
+  const updateDraft = (patch: Partial<Patient>) => setDraft((prev) => (prev ? { ...prev, ...patch } : prev));
+
+  const submitDraft = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!draft || !draft.name.trim()) return;
+    onSave({ ...draft, name: draft.name.trim(), contact: draft.contact.trim(), updatedAt: Date.now() });
+    setDraft(null);
+  };
+
+  return (
+    <div className="space-y-3">
+      {/* Search / new */}
+      <div className="flex gap-2">
+        <input
+          type="search"
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          placeholder="Buscar por nome, contato ou observacoes"
+          className={inputClass}
+        />
+        <button
+          onClick={() => setDraft(makeEmptyPatient())}
+          className="px-3 py-2 rounded-xl font-black text-[10px] uppercase tracking-wider bg-[#57BEB7] text-white hover:bg-[#48a9a3] shadow-md transition-all whitespace-nowrap"
+        >
+          Novo Paciente
+        </button>
+      </div>
+
+      {/* Create / edit form */}
+      {draft && (
+        <form onSubmit={submitDraft} className="space-y-2 p-3 rounded-2xl border-2 border-[#57BEB7]/30 bg-[#57BEB7]/5">
+          <div className="space-y-1">
+            <span className={labelClass}>Nome</span>
+            <input value={draft.name} onChange={(e) => updateDraft({ name: e.target.value })} required className={inputClass} />
+          </div>
+          <div className="grid grid-cols-3 gap-2">
+            <div className="col-span-3 sm:col-span-1 space-y-1">
+              <span className={labelClass}>Contato</span>
+              <input
+                value={draft.contact}
+                onChange={(e) => updateDraft({ contact: e.target.value })}
+                placeholder="Telefone ou e-mail"
+                className={inputClass}
+              />
+            </div>
+            <div className="space-y-1">
+              <span className={labelClass}>Idade</span>
+              <input
+                type="number"
+                min="0"
+                max="120"
+                value={draft.age ?? ''}
+                onChange={(e) => updateDraft({ age: e.target.value === '' ? null : Number(e.target.value) })}
+                className={inputClass}
+              />
+            </div>
+            <div className="space-y-1">
+              <span className={labelClass}>Norwood</span>
+              <select
+                value={draft.norwood ?? ''}
+                onChange={(e) => updateDraft({ norwood: (e.target.value || null) as NorwoodGrade | null })}
+                className={inputClass}
+              >
+                <option value="">—</option>
+                {NORWOOD_GRADES.map((grade) => (
+                  <option key={grade} value={grade}>
+                    {grade}
+                  </option>
+                ))}
+              </select>
+            </div>
+          </div>
+          <div className="space-y-1">
+            <span className={labelClass}>Observacoes</span>
+            <textarea
+              value={draft.notes}
+              onChange={(e) => updateDraft({ notes: e.target.value })}
+              rows={3}
+              className={inputClass}
+            />
+          </div>
+          <div className="flex gap-2">
+            <button
+              type="button"
+              onClick={() => setDraft(null)}
+              className="flex-1 py-2.5 rounded-xl font-bold text-[10px] uppercase tracking-wider bg-gray-100 text-gray-600 hover:bg-gray-200 transition-all"
+            >
+              Cancelar
+            </button>
+            <button
+              type="submit"
+              className="flex-1 py-2.5 rounded-xl font-bold text-[10px] uppercase tracking-wider bg-[#57BEB7] text-white hover:bg-[#48a9a3] shadow-md transition-all"
+            >
+              Salvar Paciente
+            </button>
+          </div>
+        </form>
+      )}
+
+      {/* List */}
+      {filtered.length === 0 ? (
+        <p className="text-[10px] text-gray-400 text-center py-4">
+          {patients.length === 0 ? 'Nenhum paciente cadastrado.' : 'Nenhum paciente encontrado.'}
+        </p>
+      ) : (
+        <ul className="space-y-2">
+          {filtered.map((p) => {
+            const isActive = p.id === activePatientId;
+            const isExpanded = p.id === expandedId;
+            // Oldest first: the first visit is the baseline for follow-ups
+            const visits = sessions
+              .filter((s) => s.patientId === p.id)
+              .sort((a, b) => a.createdAt - b.createdAt);
+
+            return (
+              <li
+                key={p.id}
+                className={`p-3 rounded-xl border ${isActive ? 'border-[#57BEB7] bg-[#57BEB7]/5' : 'border-gray-100 bg-gray-50'}`}
+              >
+                <div className="flex items-center gap-2">
+                  <button onClick={() => setExpandedId(isExpanded ? null : p.id)} className="flex-1 min-w-0 text-left">
+                    <p className="text-xs font-black text-[#1D4998] truncate">{p.name}</p>
+                    <p className="text-[10px] text-gray-500 truncate">
+                      {describePatient(p) || 'Sem dados adicionais'} · {visits.length}{' '}
+                      {visits.length === 1 ? 'consulta' : 'consultas'}
+                    </p>
+                  </button>
+                  <button
+                    onClick={() => onSelect(isActive ? null : p)}
+                    className={`px-3 py-1.5 rounded-lg font-black text-[9px] uppercase tracking-wider transition-all ${isActive
+                      ? 'bg-[#1D4998] text-white shadow-sm'
+                      : 'bg-[#57BEB7] text-white hover:bg-[#48a9a3] shadow-sm'
+                      }`}
+                  >
+                    {isActive ? 'Selecionado' : 'Selecionar'}
+                  </button>
+                  <button
+                    onClick={() => setDraft(p)}
+                    className="px-3 py-1.5 rounded-lg font-black text-[9px] uppercase tracking-wider bg-gray-100 text-gray-500 hover:bg-gray-200 transition-all"
+                  >
+                    Editar
+                  </button>
+                  <button
+                    onClick={() => onDelete(p.id)}
+                    className="px-3 py-1.5 rounded-lg font-black text-[9px] uppercase tracking-wider bg-gray-100 text-gray-500 hover:bg-red-50 hover:text-red-500 transition-all"
+                  >
+                    Excluir
+                  </button>
+                </div>
+
+                {isExpanded && (
+                  <div className="mt-3 space-y-2">
+                    {p.notes && <p className="text-[10px] text-gray-600 whitespace-pre-line">{p.notes}</p>}
+                    <SessionList
+                      sessions={visits}
+                      activeId={activeSessionId}
+                      onOpen={onOpenSession}
+                      onDelete={onDeleteSession}
+                      dateField="createdAt"
+                    />
+                  </div>
+                )}
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default PatientManager;
@@ -0,0 +1,101 @@
+import React, { useEffect, useRef, useState } from 'react';
+import BeforeAfterCompare from './BeforeAfterCompare';
+
+export interface PresentationItem {
+  label: string;
+  before: string;
+  after: string;
+}
+
+interface PresentationViewProps {
+  items: PresentationItem[];
+  initialIndex?: number;
+  onClose: () => void;
+}
+
+/**
+ * Full-screen before/after for showing the patient on a clinic monitor or
+ * tablet. Arrows (or ←/→) switch angles; Esc or "Fechar" leaves.
+ */
+const PresentationView: React.FC<PresentationViewProps> = ({ items, initialIndex = 0, onClose }) => {
+  const rootRef = useRef<HTMLDivElement>(null);
+  const [index, setIndex] = useState(Math.min(initialIndex, items.length - 1));
+  const item = items[index];
+
+  const go = (delta: number) => setIndex((i) => (i + delta + items.length) % items.length);
+
+  // Real fullscreen where the browser allows it; the overlay works without it
+  useEffect(() => {
+    rootRef.current?.requestFullscreen?.().catch(() => {});
+    const onFullscreenChange = () => {
+      if (!document.fullscreenElement) onClose();
+    };
+    document.addEventListener('fullscreenchange', onFullscreenChange);
+    return () => {
+      document.removeEventListener('fullscreenchange', onFullscreenChange);
+      if (document.fullscreenElement) document.exitFullscreen().catch(() => {});
+    };
+  }, []);
+
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+      else if (e.key === 'ArrowRight' && items.length > 1) go(1);
+      else if (e.key === 'ArrowLeft' && items.length > 1) go(-1);
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, [items.length, onClose]);
+
+  if (!item) return null;
+
+  return (
+    <div ref={rootRef} className="fixed inset-0 z-50 bg-black flex flex-col">
+      <div className="flex items-center justify-between px-6 py-4">
+        <span className="text-white text-sm font-black uppercase tracking-widest">{item.label}</span>
+        <div className="flex items-center gap-4">
+          {items.length > 1 && (
+            <span className="text-white/60 text-xs font-bold">
+              {index + 1} / {items.length}
+            </span>
+          )}
+          <button
+            onClick={onClose}
+            className="px-4 py-2 rounded-xl bg-white/10 text-white text-[10px] font-black uppercase tracking-wider hover:bg-white/20 transition-all"
+          >
+            Fechar
+          </button>
+        </div>
+      </div>
+
+      <div className="relative flex-1 min-h-0 px-4 pb-6">
+        <BeforeAfterCompare key={index} before={item.before} after={item.after} fit="contain" className="w-full h-full" />
+
+        {items.length > 1 && (
+          <>
+            <button
+              onClick={() => go(-1)}
+              aria-label="Angulo anterior"
+              className="absolute left-6 top-1/2 -translate-y-1/2 w-12 h-12 rounded-full bg-white/10 text-white hover:bg-white/25 flex items-center justify-center transition-all"
+            >
+              <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M15 19l-7-7 7-7" />
+              </svg>
+            </button>
+            <button
+              onClick={() => go(1)}
+              aria-label="Proximo angulo"
+              className="absolute right-6 top-1/2 -translate-y-1/2 w-12 h-12 rounded-full bg-white/10 text-white hover:bg-white/25 flex items-center justify-center transition-all"
+            >
+              <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M9 5l7 7-7 7" />
+              </svg>
+            </button>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default PresentationView;
@@ -0,0 +1,67 @@
+import React from 'react';
+import type { SessionSummary } from '../services/sessionStore';
+
+interface SessionListProps {
+  sessions: SessionSummary[];
+  /** Session currently open, highlighted and not reopenable */
+  activeId: string | null;
+  onOpen: (id: string) => void;
+  onDelete: (id: string) => void;
+  /** Which date to show: last change (default) or consultation date */
+  dateField?: 'createdAt' | 'updatedAt';
+}
+
+export const formatSessionDate = (timestamp: number) =>
+  new Date(timestamp).toLocaleString('pt-BR', { dateStyle: 'short', timeStyle: 'short' });
+
+export const describeSession = (s: SessionSummary) =>
+  `${s.photoCount} ${s.photoCount === 1 ? 'foto' : 'fotos'} · ${s.drawnCount} ${s.drawnCount === 1 ? 'marcacao' : 'marcacoes'} · ${s.resultCount} ${s.resultCount === 1 ? 'resultado' : 'resultados'}`;
+
+const SessionList: React.FC<SessionListProps> = ({ sessions, activeId, onOpen, onDelete, dateField = 'updatedAt' }) => {
+  if (sessions.length === 0) {
+    return <p className="text-[10px] text-gray-400 text-center py-4">Nenhuma sessao salva neste dispositivo.</p>;
+  }
+
+  return (
+    <ul className="space-y-2">
+      {sessions.map((s) => {
+        const isActive = s.id === activeId;
+        return (
+          <li
+            key={s.id}
+            className={`flex items-center gap-3 p-2 rounded-xl border ${isActive ? 'border-[#57BEB7] bg-[#57BEB7]/5' : 'border-gray-100 bg-gray-50'}`}
+          >
+            {s.thumbnail ? (
+              <img src={s.thumbnail} alt="" className="w-12 h-12 rounded-lg object-cover flex-shrink-0" />
+            ) : (
+              <div className="w-12 h-12 rounded-lg bg-gray-200 flex-shrink-0" />
+            )}
+            <div className="flex-1 min-w-0">
+              <p className="text-[10px] font-black text-[#1D4998] uppercase tracking-wider">
+                {formatSessionDate(s[dateField])}
+                {isActive && <span className="ml-2 text-[#57BEB7]">Atual</span>}
+              </p>
+              <p className="text-[10px] text-gray-500 truncate">{describeSession(s)}</p>
+            </div>
+            {!isActive && (
+              <button
+                onClick={() => onOpen(s.id)}
+                className="px-3 py-1.5 rounded-lg font-black text-[9px] uppercase tracking-wider bg-[#57BEB7] text-white hover:bg-[#48a9a3] shadow-sm transition-all"
+              >
+                Reabrir
+              </button>
+            )}
+            <button
+              onClick={() => onDelete(s.id)}
+              className="px-3 py-1.5 rounded-lg font-black text-[9px] uppercase tracking-wider bg-gray-100 text-gray-500 hover:bg-red-50 hover:text-red-500 transition-all"
+            >
+              Excluir
+            </button>
+          </li>
+        );
+      })}
+    </ul>
+  );
+};
+
+export default SessionList;
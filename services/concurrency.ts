@@ -0,0 +1,31 @@
+/**
+ * Run `worker` over `items` with at most `limit` calls in flight.
+ * Results keep the input order; a failing item does not stop the others.
+ * Once `signal` is aborted no new item is started and the call rejects with
+ * the abort reason after the in-flight workers settle.
+ */
+export const mapWithConcurrency = async <T, R>(
+  items: T[],
+  limit: number,
+  worker: (item: T, index: number) => Promise<R>,
+  signal?: AbortSignal
+): Promise<PromiseSettledResult<R>[]> => {
+  const results: PromiseSettledResult<R>[] = new Array(items.length);
+  let next = 0;
+
+  const runLane = async () => {
+    while (next < items.length && !signal?.aborted) {
+      const index = next++;
+      try {
+        results[index] = { status: 'fulfilled', value: await worker(items[index], index) };
+      } catch (reason) {
+        results[index] = { status: 'rejected', reason };
+      }
+    }
+  };
+
+  const lanes = Math.max(1, Math.min(limit, items.length));
+  await Promise.all(Array.from({ length: lanes }, runLane));
+  signal?.throwIfAborted();
+  return results;
+};
@@ -0,0 +1,76 @@
+import { describe, expect, it } from 'vitest';
+import { hairlineNormals, hairlineOutline, sampleHairlineCurve } from './drawing';
+
+const points = [
+  { x: 300, y: 120 },
+  { x: 100, y: 200 },
+  { x: 200, y: 150 },
+];
+
+describe('sampleHairlineCurve', () => {
+  it('passes through every control point, left to right', () => {
+    const curve = sampleHairlineCurve(points, 8);
+    expect(curve).toHaveLength(2 * 8 + 1);
+    expect(curve[0]).toEqual({ x: 100, y: 200 });
+    expect(curve[8]).toEqual({ x: 200, y: 150 });
+    expect(curve[16]).toEqual({ x: 300, y: 120 });
+    for (let i = 1; i < curve.length; i++) expect(curve[i].x).toBeGreaterThan(curve[i - 1].x);
+  });
+
+  it('is a straight line through two points', () => {
+    const curve = sampleHairlineCurve([{ x: 0, y: 0 }, { x: 100, y: 50 }], 4);
+    curve.forEach((p) => expect(p.y).toBeCloseTo(p.x / 2));
+  });
+
+  it('returns fewer than two points unchanged', () => {
+    expect(sampleHairlineCurve([])).toEqual([]);
+    expect(sampleHairlineCurve([{ x: 5, y: 5 }])).toEqual([{ x: 5, y: 5 }]);
+  });
+});
+
+describe('hairlineNormals', () => {
+  it('points toward the hair side of the line', () => {
+    const flat = [{ x: 0, y: 50 }, { x: 50, y: 50 }, { x: 100, y: 50 }];
+    expect(hairlineNormals(flat, -1)[1].y).toBe(-1);
+    expect(hairlineNormals(flat, 1)[1].y).toBe(1);
+  });
+
+  it('turns sideways on a steep line', () => {
+    const [n] = hairlineNormals([{ x: 0, y: 0 }, { x: 1, y: 100 }], 1);
+    expect(n.x).toBeCloseTo(-1, 2);
+    expect(Math.abs(n.y)).toBeLessThan(0.02);
+  });
+});
+
+describe('hairlineOutline', () => {
+  const flat = [{ x: 100, y: 200 }, { x: 300, y: 200 }];
+
+  it('closes the curve with a copy moved by depth toward the hair', () => {
+    const curve = sampleHairlineCurve(points);
+    const up = hairlineOutline({ points, depth: 40, direction: -1 });
+    expect(up).toHaveLength(curve.length * 2);
+    expect(up.slice(0, curve.length)).toEqual(curve);
+
+    const flatUp = hairlineOutline({ points: flat, depth: 40, direction: -1 });
+    expect(flatUp[flatUp.length - 1]).toEqual({ x: 100, y: 160 });
+    const flatDown = hairlineOutline({ points: flat, depth: 40, direction: 1 });
+    expect(flatDown[flatDown.length - 1]).toEqual({ x: 100, y: 240 });
+  });
+
+  it('reaches the detected hair edge per sample', () => {
+    const curve = sampleHairlineCurve(flat);
+    const edge = curve.map((_, i) => 10 + i);
+    const outline = hairlineOutline({ points: flat, depth: 40, direction: -1, edge });
+    const back = outline.slice(curve.length).reverse();
+    back.forEach((p, i) => expect(p.y).toBeCloseTo(200 - edge[i]));
+  });
+
+  it('falls back to depth when the edge belongs to another curve', () => {
+    const outline = hairlineOutline({ points: flat, depth: 40, direction: -1, edge: [5, 5, 5] });
+    expect(outline[outline.length - 1]).toEqual({ x: 100, y: 160 });
+  });
+
+  it('is empty until there are two points', () => {
+    expect(hairlineOutline({ points: [{ x: 1, y: 1 }], depth: 10, direction: -1 })).toEqual([]);
+  });
+});
@@ -0,0 +1,179 @@
+/**
+ * Replay of DrawingCanvas history onto a 2D context.
+ *
+ * Strokes are stored as data rather than pixels so undo/redo is just
+ * "clear and replay", and the same history renders at any resolution.
+ */
+
+import type { DrawAction, DrawingHistory, HairlineAction, Point, StrokeAction } from '../types';
+
+export const EMPTY_HISTORY: DrawingHistory = { actions: [], redo: [] };
+
+export const renderStroke = (ctx: CanvasRenderingContext2D, stroke: StrokeAction) => {
+  const [first, ...rest] = stroke.points;
+  if (!first) return;
+
+  ctx.save();
+  ctx.lineCap = 'round';
+  ctx.lineJoin = 'round';
+  if (stroke.erase) {
+    ctx.globalCompositeOperation = 'destination-out';
+    ctx.strokeStyle = '#000';
+  } else {
+    ctx.globalCompositeOperation = 'source-over';
+    ctx.strokeStyle = stroke.color;
+  }
+  ctx.lineWidth = stroke.size;
+
+  // One path for both sides, so a semi-transparent color does not darken
+  // where the stroke and its mirror overlap near the axis
+  ctx.beginPath();
+  const trace = (mapX: (x: number) => number) => {
+    ctx.moveTo(mapX(first.x), first.y);
+    // A single click still leaves a dot
+    if (rest.length === 0) ctx.lineTo(mapX(first.x) + 0.1, first.y + 0.1);
+    for (const p of rest) ctx.lineTo(mapX(p.x), p.y);
+  };
+  trace((x) => x);
+  if (stroke.mirrorX !== undefined) {
+    const axis = stroke.mirrorX;
+    trace((x) => 2 * axis - x);
+  }
+  ctx.stroke();
+  ctx.restore();
+};
+
+// ---------------------------------------------------------------------------
+// Hairline curve
+// ---------------------------------------------------------------------------
+
+/**
+ * Sample a Catmull-Rom spline through the control points (sorted by x), so
+ * the curve passes exactly through every point the consultant placed.
+ */
+export const sampleHairlineCurve = (points: Point[], samplesPerSegment = 16): Point[] => {
+  if (points.length < 2) return [...points];
+  const sorted = [...points].sort((a, b) => a.x - b.x);
+  const curve: Point[] = [];
+
+  for (let i = 0; i < sorted.length - 1; i++) {
+    const p0 = sorted[Math.max(0, i - 1)];
+    const p1 = sorted[i];
+    const p2 = sorted[i + 1];
+    const p3 = sorted[Math.min(sorted.length - 1, i + 2)];
+
+    for (let s = 0; s < samplesPerSegment; s++) {
+      const t = s / samplesPerSegment;
+      const t2 = t * t;
+      const t3 = t2 * t;
+      curve.push({
+        x: 0.5 * (2 * p1.x + (-p0.x + p2.x) * t + (2 * p0.x - 5 * p1.x + 4 * p2.x - p3.x) * t2 + (-p0.x + 3 * p1.x - 3 * p2.x + p3.x) * t3),
+        y: 0.5 * (2 * p1.y + (-p0.y + p2.y) * t + (2 * p0.y - 5 * p1.y + 4 * p2.y - p3.y) * t2 + (-p0.y + 3 * p1.y - 3 * p2.y + p3.y) * t3),
+      });
+    }
+  }
+  curve.push(sorted[sorted.length - 1]);
+  return curve;
+};
+
+/**
+ * Unit normal at each curve sample, on the side the hair is (direction -1 =
+ * up, 1 = down). The curve runs left to right, so a steep temple line on a
+ * profile photo gets a sideways normal instead of collapsing.
+ */
+export const hairlineNormals = (curve: Point[], direction: 1 | -1): Point[] =>
+  curve.map((_, i) => {
+    const a = curve[Math.max(0, i - 1)];
+    const b = curve[Math.min(curve.length - 1, i + 1)];
+    const length = Math.hypot(b.x - a.x, b.y - a.y) || 1;
+    const tx = (b.x - a.x) / length;
+    const ty = (b.y - a.y) / length;
+    return { x: -direction * ty, y: direction * tx };
+  });
+
+/**
+ * Closed outline: the curve, then each sample moved along its normal to the
+ * detected hair (`edge`), or by the fixed `depth` where there is none.
+ */
+export const hairlineOutline = (action: Omit<HairlineAction, 'type' | 'id' | 'color'>): Point[] => {
+  const curve = sampleHairlineCurve(action.points);
+  if (curve.length < 2) return [];
+  // An edge detected for another version of the curve no longer lines up
+  const edge = action.edge?.length === curve.length ? action.edge : null;
+  const normals = hairlineNormals(curve, action.direction);
+  const back = curve
+    .map((p, i) => {
+      const offset = edge ? edge[i] : action.depth;
+      return { x: p.x + normals[i].x * offset, y: p.y + normals[i].y * offset };
+    })
+    .reverse();
+  return [...curve, ...back];
+};
+
+export const renderHairline = (ctx: CanvasRenderingContext2D, action: HairlineAction) => {
+  const outline = hairlineOutline(action);
+  if (outline.length === 0) return;
+
+  ctx.save();
+  ctx.globalCompositeOperation = 'source-over';
+  ctx.fillStyle = action.color;
+  ctx.beginPath();
+  ctx.moveTo(outline[0].x, outline[0].y);
+  for (const p of outline.slice(1)) ctx.lineTo(p.x, p.y);
+  ctx.closePath();
+  ctx.fill();
+  ctx.restore();
+};
+
+/** SVG path "d" for a polyline */
+export const toSvgPath = (points: Point[], close = false): string =>
+  points.map((p, i) => `${i === 0 ? 'M' : 'L'}${p.x.toFixed(1)} ${p.y.toFixed(1)}`).join(' ') +
+  (close ? ' Z' : '');
+
+/** Latest version of the most recent hairline, unless cleared since */
+export const findActiveHairline = (actions: DrawAction[]): HairlineAction | null => {
+  for (let i = actions.length - 1; i >= 0; i--) {
+    const action = actions[i];
+    if (action.type === 'clear') return null;
+    if (action.type === 'hairline') return action;
+  }
+  return null;
+};
+
+// ---------------------------------------------------------------------------
+// Replay
+// ---------------------------------------------------------------------------
+
+export const renderActions = (
+  ctx: CanvasRenderingContext2D,
+  actions: DrawAction[],
+  width: number,
+  height: number,
+  /** Hide a hairline while it is being edited (the editor previews it) */
+  skipHairlineId?: string
+) => {
+  // Only the last version of each hairline is drawn
+  const latestHairline = new Map<string, number>();
+  actions.forEach((action, i) => {
+    if (action.type === 'hairline') latestHairline.set(action.id, i);
+  });
+
+  ctx.clearRect(0, 0, width, height);
+  actions.forEach((action, i) => {
+    if (action.type === 'clear') {
+      ctx.clearRect(0, 0, width, height);
+    } else if (action.type === 'hairline') {
+      if (latestHairline.get(action.id) === i && action.id !== skipHairlineId) {
+        renderHairline(ctx, action);
+      }
+    } else {
+      renderStroke(ctx, action);
+    }
+  });
+};
+
+/** Nothing visible left to undo back to (empty, or ends with a clear) */
+export const isHistoryBlank = (history: DrawingHistory) => {
+  const last = history.actions[history.actions.length - 1];
+  return !last || last.type === 'clear';
+};
@@ -0,0 +1,91 @@
+/**
+ * Typed generation failures.
+ *
+ * Every provider error ends up as a SimulationError with a category, both in
+ * the browser and in api/simulate (which sends the category back as JSON), so
+ * the retry policy and the UI can react to the kind of failure rather than to
+ * provider-specific messages. Keep this file free of DOM and Node imports.
+ */
+
+import type { SimulationErrorCategory } from '../types';
+
+export type { SimulationErrorCategory };
+
+export const ERROR_LABELS: Record<SimulationErrorCategory, string> = {
+  quota: 'Limite de uso atingido',
+  safety: 'Bloqueado pelo filtro de seguranca',
+  timeout: 'Tempo esgotado',
+  no_image: 'Modelo nao retornou imagem',
+  network: 'Falha de conexao',
+  unknown: 'Erro desconhecido',
+};
+
+/** Categories worth retrying automatically */
+export const RETRYABLE_CATEGORIES: SimulationErrorCategory[] = ['quota', 'timeout', 'no_image', 'network'];
+
+export class SimulationError extends Error {
+  readonly category: SimulationErrorCategory;
+
+  constructor(category: SimulationErrorCategory, message?: string) {
+    super(message || ERROR_LABELS[category]);
+    this.name = 'SimulationError';
+    this.category = category;
+  }
+
+  get retryable(): boolean {
+    return RETRYABLE_CATEGORIES.includes(this.category);
+  }
+}
+
+export const isSimulationErrorCategory = (value: unknown): value is SimulationErrorCategory =>
+  typeof value === 'string' && Object.prototype.hasOwnProperty.call(ERROR_LABELS, value);
+
+/** HTTP status that api/simulate uses for each category (and back) */
+export const CATEGORY_STATUS: Record<SimulationErrorCategory, number> = {
+  quota: 429,
+  safety: 422,
+  timeout: 504,
+  no_image: 502,
+  network: 502,
+  unknown: 500,
+};
+
+const categoryFromStatus = (status: number): SimulationErrorCategory | null => {
+  if (status === 429) return 'quota';
+  if (status === 408 || status === 504) return 'timeout';
+  if (status >= 500) return 'network';
+  return null;
+};
+
+const PATTERNS: [RegExp, SimulationErrorCategory][] = [
+  [/quota|rate.?limit|resource.?exhausted|too many requests/i, 'quota'],
+  [/safety|blocked|prohibited|content.?policy|moderation/i, 'safety'],
+  [/time.?out|timed out|deadline|etimedout/i, 'timeout'],
+  [/nao retornou imagem|no image/i, 'no_image'],
+  [/failed to fetch|fetch failed|network|econnreset|econnrefused|socket hang up|unavailable/i, 'network'],
+];
+
+/**
+ * User cancellation (AbortController.abort()). Not a failure: callers check
+ * this before classifyError and let it propagate untouched.
+ */
+export const isAbortError = (err: unknown): boolean => (err as any)?.name === 'AbortError';
+
+/** Wrap any thrown value into a SimulationError, guessing its category */
+export const classifyError = (err: unknown): SimulationError => {
+  if (err instanceof SimulationError) return err;
+
+  const anyErr = err as any;
+  const message: string = anyErr?.message || String(err ?? '');
+
+  if (anyErr?.name === 'TimeoutError') return new SimulationError('timeout', message);
+
+  const status = Number(anyErr?.status ?? anyErr?.statusCode);
+  const fromStatus = Number.isFinite(status) ? categoryFromStatus(status) : null;
+  if (fromStatus) return new SimulationError(fromStatus, message);
+
+  for (const [pattern, category] of PATTERNS) {
+    if (pattern.test(message)) return new SimulationError(category, message);
+  }
+  return new SimulationError('unknown', message);
+};
@@ -6,257 +6,324 @@
  *   Image 2: same photo with red markings drawn by the user
  * The prompt tells the model to compare them and add hair where marked.
  *
- * Uses Gemini 3 Pro Image (Nano Banana Pro) via @google/genai SDK.
+ * The backend is pluggable (see ./providers): Gemini 3 Pro Image by default,
+ * OpenAI images.edit, fal.ai FLUX inpainting or a local mock. Gemini and
+ * OpenAI run server-side in api/simulate so their keys never reach the browser.
  */
 
-import { GoogleGenAI } from "@google/genai";
-import type { SimulationAngle } from "../types";
+import type { DensityLevel, GrowthStage, HairProfile, Procedure, ReferenceMode, SimulationAngle } from "../types";
+import {
+  applyHairBaseTexture,
+  buildBinaryMask,
+  compressImage,
+  loadImage,
+  recomposeWithMask,
+} from "./imageUtils";
+import { mapWithConcurrency } from "./concurrency";
+import { classifyError, isAbortError, SimulationError, type SimulationErrorCategory } from "./errors";
+import { buildPrompt, GROWTH_STAGE_FRACTION, procedureOf, type HairPromptInfo } from "./prompts";
+import { getProvider, resolveProviderId, type ImageProviderId } from "./providers";
+import { findReference, loadReference, referenceArms } from "./referenceLibrary";
+import { withRetry } from "./retry";
 
 // ---------------------------------------------------------------------------
-// Gemini configuration
+// Configuration
 // ---------------------------------------------------------------------------
 
-const GEMINI_API_KEY = process.env.GEMINI_API_KEY || process.env.API_KEY || "";
+const readPositiveInt = (value: string | undefined, fallback: number): number => {
+  const parsed = Number.parseInt(value || "", 10);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : fallback;
+};
 
-if (!GEMINI_API_KEY) {
-  console.warn("[SimulationService] No GEMINI_API_KEY found — API calls will fail");
-}
+/** Variants generated per angle unless the caller asks otherwise */
+export const DEFAULT_VARIANT_COUNT = readPositiveInt(process.env.SIMULATION_VARIANTS, 1);
 
-const ai = new GoogleGenAI({ apiKey: GEMINI_API_KEY });
-const MODEL_ID = "gemini-3-pro-image-preview";
+/** Max generation calls in flight at once for a single angle */
+export const VARIANT_CONCURRENCY = readPositiveInt(process.env.SIMULATION_CONCURRENCY, 2);
 
-// ---------------------------------------------------------------------------
-// Image compression
-// ---------------------------------------------------------------------------
+/** Max angles processed at once by runSimulation */
+export const ANGLE_CONCURRENCY = readPositiveInt(process.env.SIMULATION_ANGLE_CONCURRENCY, 2);
 
-const compressImage = (
-  base64DataUrl: string,
-  maxSize = 1536,
-  quality = 0.85
-): Promise<string> => {
-  return new Promise((resolve) => {
-    const img = new Image();
-    img.onload = () => {
-      const canvas = document.createElement("canvas");
-      let { width, height } = img;
-      if (width > maxSize || height > maxSize) {
-        const ratio = Math.min(maxSize / width, maxSize / height);
-        width = Math.round(width * ratio);
-        height = Math.round(height * ratio);
-      }
-      canvas.width = width;
-      canvas.height = height;
-      const ctx = canvas.getContext("2d")!;
-      ctx.drawImage(img, 0, 0, width, height);
-      resolve(canvas.toDataURL("image/jpeg", quality));
-    };
-    img.onerror = () => resolve(base64DataUrl);
-    img.src = base64DataUrl;
-  });
-};
+/** Automatic retries per variant for transient failures (see ./retry) */
+const MAX_RETRIES = 2;
 
-const parseDataUrl = (dataUrl: string): { mimeType: string; data: string } => {
-  const match = dataUrl.match(/^data:(image\/\w+);base64,(.+)$/);
-  if (!match) return { mimeType: "image/jpeg", data: dataUrl };
-  return { mimeType: match[1], data: match[2] };
-};
+/** Backends that accept a reference case as an extra image */
+const REFERENCE_PROVIDERS: ImageProviderId[] = ["gemini"];
 
 // ---------------------------------------------------------------------------
-// Prompts — two-image approach (original + annotated)
+// Public API
 // ---------------------------------------------------------------------------
 
-const PROMPTS: Record<SimulationAngle, string> = {
-  frontal: `I am providing TWO images of the same person.
-Image 1: The patient's photo. Notice the solid black/dark brown shape painted onto the forehead/scalp. THIS IS A DIGITAL HAIRPIECE.
-Image 2: The same photo with a RED MASK highlighting this exact digital hairpiece.
-
-YOUR TASK: Texturize the flat black hairpiece in Image 1 into photorealistic, natural hair.
-
-CRITICAL RULES:
-1. MAXIMIZE DENSITY: The black shape is already hair. Your job is only to add texture, lighting, and strands to it.
-2. DO NOT SHRINK THE HAIRLINE: You MUST transform 100% of the black painted area into dense hair. Absolutely NO forehead skin should replace the black area. If the black shape is low on the forehead, the hair MUST be low on the forehead.
-3. PHOTOREALISM: Make the generated hair perfectly match the patient's existing hair color and lighting. Blend the edges seamlessly into the existing hair.
+export interface SimulateOptions {
+  /** Force a backend instead of the one configured for the angle */
+  provider?: ImageProviderId;
+  /**
+   * Blend the result back onto the original outside the mask (default true).
+   * Turn off only to inspect the raw model output.
+   */
+  recompose?: boolean;
+  /** Cancels preparation, pending retries and in-flight requests */
+  signal?: AbortSignal;
+  /** Target density for both the pre-fill and the prompt (default full) */
+  density?: DensityLevel;
+  /** Patient's sampled hair: pre-fill palette and colour description */
+  hair?: HairProfile | null;
+  /** Growth stage in months for the timeline (default the final result) */
+  stage?: GrowthStage;
+  /** Attach the angle's reference case as a worked example (default off) */
+  reference?: ReferenceMode;
+}
 
-Output ONLY one photorealistic photo based on Image 1 with the hair added. No text. No labels. No split view.`,
+/** Outcome of one variant: an image, or a categorized error */
+export interface VariantResult {
+  image?: string;
+  /** Reference case the variant was generated with */
+  reference?: string;
+  error?: string;
+  category?: SimulationErrorCategory;
+}
 
-  top: `I am providing TWO images of the patient's scalp.
-Image 1: The crown/scalp photo. Notice the solid black/dark brown shape painted onto the scalp. THIS IS A DIGITAL HAIRPIECE.
-Image 2: The same photo with a RED MASK highlighting this exact digital hairpiece.
+export interface VariantOptions extends SimulateOptions {
+  /** Number of variants to generate (default DEFAULT_VARIANT_COUNT) */
+  count?: number;
+  /** Max calls in flight (default VARIANT_CONCURRENCY) */
+  concurrency?: number;
+  /** Called as soon as each variant finishes, in completion order */
+  onVariant?: (index: number, result: VariantResult) => void;
+}
 
-YOUR TASK: Texturize the flat black hairpiece in Image 1 into photorealistic, natural hair.
+/** One angle to simulate in runSimulation */
+export interface SimulationInput {
+  angle: SimulationAngle;
+  originalDataUrl: string;
+  compositeDataUrl: string;
+  rawDrawingDataUrl?: string;
+  provider?: ImageProviderId;
+  hair?: HairProfile | null;
+}
 
-CRITICAL RULES:
-1. EXTREME DENSITY: The black shape is already hair. Your job is only to add texture, whorls, and strands to it. Absolutely NO SCALP skin should be visible beneath it.
-2. PRESERVE BOUNDARIES: You MUST transform 100% of the black painted area into thick hair. Do not shrink the coverage area. Map exactly to the black shape boundaries.
-3. PHOTOREALISM: Match the natural existing hair color and crown growth pattern (whorl). Keep the unmasked areas 100% identical to Image 1.
+/** Per-angle progress reported by runSimulation */
+export type SimulationProgress =
+  | { type: 'start'; angle: SimulationAngle; startedAt: number }
+  | { type: 'variant'; angle: SimulationAngle; index: number; result: VariantResult; elapsedMs: number }
+  | { type: 'done'; angle: SimulationAngle; results: VariantResult[]; elapsedMs: number }
+  | { type: 'error'; angle: SimulationAngle; error: SimulationError; elapsedMs: number };
+
+export interface RunSimulationOptions extends Omit<VariantOptions, 'provider' | 'onVariant'> {
+  /** Max angles in flight (default ANGLE_CONCURRENCY) */
+  angleConcurrency?: number;
+  onProgress?: (event: SimulationProgress) => void;
+}
 
-Output ONLY one photorealistic photo based on Image 1 with the hair added. No text. No labels. No split view.`,
+/**
+ * Pre-fill strength per procedure. Beard hair is sparser than scalp hair;
+ * brows are too fine for a painted base, so their prompts work from the mask.
+ */
+const PREFILL_STRENGTH: Record<Procedure, number> = {
+  scalp: 1,
+  beard: 0.6,
+  eyebrow: 0,
 };
 
-// ---------------------------------------------------------------------------
-// Core: call Gemini with TWO images + prompt
-// ---------------------------------------------------------------------------
-
-const callGeminiTwoImages = async (
+/** Pre-fill, compress and mask once; shared by every variant of an angle */
+const prepareInputs = async (
   originalDataUrl: string,
-  annotatedDataUrl: string,
-  prompt: string,
-  label: string,
-  temperature = 0.8
-): Promise<string> => {
-  console.log(`[Gemini] Processing ${label} (temp=${temperature}, 2 images)...`);
-  const start = Date.now();
-
-  const original = parseDataUrl(originalDataUrl);
-  const annotated = parseDataUrl(annotatedDataUrl);
-
-  const response = await ai.models.generateContent({
-    model: MODEL_ID,
-    contents: [
-      { text: prompt },
-      {
-        inlineData: {
-          mimeType: original.mimeType,
-          data: original.data,
-        },
-      },
-      {
-        inlineData: {
-          mimeType: annotated.mimeType,
-          data: annotated.data,
-        },
-      },
-    ],
-    config: {
-      responseModalities: ["TEXT", "IMAGE"],
-      temperature,
-    },
-  });
-
-  const elapsed = ((Date.now() - start) / 1000).toFixed(1);
-  console.log(`[Gemini] ${label} done in ${elapsed}s`);
+  compositeDataUrl: string,
+  angle: SimulationAngle,
+  rawDrawingDataUrl: string | undefined,
+  providerId: ImageProviderId,
+  density: DensityLevel | undefined,
+  hair: HairPromptInfo | undefined,
+  stage: GrowthStage | undefined
+) => {
+  let finalOriginalUrl = originalDataUrl;
 
-  const parts = response?.candidates?.[0]?.content?.parts;
-  if (!parts) {
-    throw new Error("Resposta vazia do modelo");
+  // Apply the pre-fill hair silhouette bypass to every view of the procedure (partial below full density)
+  const strength = PREFILL_STRENGTH[procedureOf(angle)] * (stage ? GROWTH_STAGE_FRACTION[stage] : 1);
+  if (rawDrawingDataUrl && strength > 0) {
+    console.log(`[${providerId}] Applying pre-fill hair base texture for ${angle} view...`);
+    finalOriginalUrl = await applyHairBaseTexture(originalDataUrl, rawDrawingDataUrl, density, hair?.palette, strength);
   }
 
-  for (const part of parts) {
-    if ((part as any).inlineData) {
-      const inlineData = (part as any).inlineData;
-      return `data:${inlineData.mimeType || "image/png"};base64,${inlineData.data}`;
-    }
-  }
+  const compressedOriginal = await compressImage(finalOriginalUrl, 1536, 0.90);
+  const compressedAnnotated = await compressImage(compositeDataUrl, 1536, 0.95);
 
-  for (const part of parts) {
-    if ((part as any).text) {
-      console.warn(`[Gemini] Text instead of image (${label}):`, (part as any).text);
-    }
+  let maskDataUrl: string | undefined;
+  if (rawDrawingDataUrl) {
+    const { width, height } = await loadImage(compressedOriginal);
+    maskDataUrl = await buildBinaryMask(rawDrawingDataUrl, width, height);
   }
 
-  throw new Error("Modelo nao retornou imagem — tente novamente");
+  return { compressedOriginal, compressedAnnotated, maskDataUrl };
 };
 
-// ---------------------------------------------------------------------------
-// Image Processing Pre-fill Utility
-// ---------------------------------------------------------------------------
+/**
+ * Generate several independent variants for one angle, at most
+ * `concurrency` at a time. Resolves with one entry per variant (image or
+ * error) in request order; rejects only if preparing the inputs fails or
+ * the signal is aborted (with the AbortError).
+ */
+export const simulateAngleVariants = async (
+  originalDataUrl: string,
+  compositeDataUrl: string,
+  angle: SimulationAngle,
+  rawDrawingDataUrl?: string,
+  options: VariantOptions = {}
+): Promise<VariantResult[]> => {
+  const provider = getProvider(resolveProviderId(angle, options.provider));
+  const count = Math.max(1, options.count ?? DEFAULT_VARIANT_COUNT);
+
+  const { signal, density, stage } = options;
+  // Only palette and texture travel; where it was picked stays local
+  const hair: HairPromptInfo | undefined = options.hair
+    ? { palette: options.hair.palette, texture: options.hair.texture }
+    : undefined;
+
+  const { compressedOriginal, compressedAnnotated, maskDataUrl } = await prepareInputs(
+    originalDataUrl,
+    compositeDataUrl,
+    angle,
+    rawDrawingDataUrl,
+    provider.id,
+    density,
+    hair,
+    stage
+  );
+  signal?.throwIfAborted();
+
+  // Reference case for the variants that get one (see ./referenceLibrary)
+  const mode = options.reference ?? "off";
+  const referenceCase = mode !== "off" && REFERENCE_PROVIDERS.includes(provider.id) ? findReference(angle) : null;
+  const referenceDataUrl = referenceCase ? await loadReference(referenceCase) : null;
+  if (referenceCase && !referenceDataUrl) console.warn(`[${angle}] Referencia ${referenceCase.id} indisponivel`);
+  const arms = referenceArms(referenceDataUrl ? mode : "off", count);
+  const referenceOf = (index: number) => (arms[index] ? referenceCase!.id : undefined);
+
+  const generateOne = async (index: number): Promise<string> => {
+    const label = count > 1 ? `simulate-full-${angle}#${index + 1}` : `simulate-full-${angle}`;
+    const withReference = arms[index];
+
+    const generated = await withRetry(
+      (_attempt, lastError) => {
+        // Text-only answer last time: ask again, explicitly for an image
+        const reask = lastError?.category === 'no_image';
+        return provider.generate({
+          angle,
+          originalDataUrl: compressedOriginal,
+          annotatedDataUrl: compressedAnnotated,
+          maskDataUrl,
+          prompt: buildPrompt(angle, { reask, density, hair, stage, reference: withReference }),
+          reask,
+          density,
+          hair,
+          stage,
+          referenceDataUrl: withReference ? referenceDataUrl! : undefined,
+          label,
+          temperature: 0.8,
+          signal,
+        });
+      },
+      {
+        retries: MAX_RETRIES,
+        signal,
+        onRetry: (attempt, error, delayMs) =>
+          console.warn(
+            `[${provider.id}] ${label}: ${error.category}, tentativa ${attempt + 1} em ${(delayMs / 1000).toFixed(1)}s`
+          ),
+      }
+    );
+
+    // The prompt asks for untouched unmasked areas, but only this enforces it
+    if (!rawDrawingDataUrl || options.recompose === false) return generated;
+    signal?.throwIfAborted();
+    return await recomposeWithMask(originalDataUrl, generated, rawDrawingDataUrl);
+  };
+
+  const settled = await mapWithConcurrency(
+    Array.from({ length: count }, (_, i) => i),
+    options.concurrency ?? VARIANT_CONCURRENCY,
+    async (index) => {
+      try {
+        const image = await generateOne(index);
+        options.onVariant?.(index, { image, reference: referenceOf(index) });
+        return image;
+      } catch (err) {
+        if (isAbortError(err)) throw err;
+        const error = classifyError(err);
+        console.error(`[${angle}] Variante ${index + 1} falhou (${error.category}):`, err);
+        options.onVariant?.(index, { error: error.message, category: error.category });
+        throw error;
+      }
+    },
+    signal
+  );
 
-const applyHairBaseTexture = (originalDataUrl: string, rawDrawingDataUrl: string): Promise<string> => {
-  return new Promise((resolve) => {
-    const origImg = new Image();
-    origImg.onload = () => {
-      const maskImg = new Image();
-      maskImg.onload = () => {
-        const canvas = document.createElement("canvas");
-        canvas.width = origImg.width;
-        canvas.height = origImg.height;
-        const ctx = canvas.getContext("2d")!;
-
-        // Draw original
-        ctx.drawImage(origImg, 0, 0);
-        const imgData = ctx.getImageData(0, 0, canvas.width, canvas.height);
-        const pixels = imgData.data;
-
-        // Draw mask to a temporary canvas to get its pixels
-        const maskCanvas = document.createElement("canvas");
-        maskCanvas.width = origImg.width;
-        maskCanvas.height = origImg.height;
-        const maskCtx = maskCanvas.getContext("2d")!;
-        maskCtx.drawImage(maskImg, 0, 0, maskCanvas.width, maskCanvas.height);
-        const maskData = maskCtx.getImageData(0, 0, maskCanvas.width, maskCanvas.height).data;
-
-        for (let i = 0; i < pixels.length; i += 4) {
-          // If mask has any alpha (meaning it was drawn on)
-          if (maskData[i + 3] > 0) {
-            // Apply an extremely dark base to force Gemini to see it as hair
-            // Almost pitch black, with just a tiny bit of noise to avoid looking like a void
-            const noise = Math.random() * 15;
-            pixels[i] = Math.min(255, Math.max(0, 10 + noise));     // R
-            pixels[i + 1] = Math.min(255, Math.max(0, 8 + noise));  // G
-            pixels[i + 2] = Math.min(255, Math.max(0, 8 + noise));  // B
-            // Ensure full opacity
-            pixels[i + 3] = 255;
-          }
-        }
-
-        ctx.putImageData(imgData, 0, 0);
-        resolve(canvas.toDataURL("image/jpeg", 0.95));
-      };
-      maskImg.src = rawDrawingDataUrl;
-    };
-    origImg.src = originalDataUrl;
+  return settled.map((r, index): VariantResult => {
+    if (r.status === 'fulfilled') return { image: r.value, reference: referenceOf(index) };
+    const error = classifyError(r.reason);
+    return { error: error.message, category: error.category };
   });
 };
 
-// ---------------------------------------------------------------------------
-// Public API
-// ---------------------------------------------------------------------------
-
 /** Simulate transplant: sends original + annotated photo, single call */
 export const simulateAngle = async (
   originalDataUrl: string,
   compositeDataUrl: string,
   angle: SimulationAngle,
-  rawDrawingDataUrl?: string
+  rawDrawingDataUrl?: string,
+  options: SimulateOptions = {}
 ): Promise<string> => {
-
-  let finalOriginalUrl = originalDataUrl;
-
-  // Apply the pre-fill hair silhouette bypass to ALL views to force dense coverage
-  if (rawDrawingDataUrl) {
-    console.log(`[Gemini] Applying pre-fill hair base texture for ${angle} view...`);
-    finalOriginalUrl = await applyHairBaseTexture(originalDataUrl, rawDrawingDataUrl);
-  }
-
-  const compressedOriginal = await compressImage(finalOriginalUrl, 1536, 0.90);
-  const compressedAnnotated = await compressImage(compositeDataUrl, 1536, 0.95);
-  return await callGeminiTwoImages(
-    compressedOriginal,
-    compressedAnnotated,
-    PROMPTS[angle],
-    `simulate-full-${angle}`,
-    0.8
+  const [result] = await simulateAngleVariants(
+    originalDataUrl,
+    compositeDataUrl,
+    angle,
+    rawDrawingDataUrl,
+    { ...options, count: 1 }
   );
+  if (!result.image) throw new SimulationError(result.category || 'unknown', result.error);
+  return result.image;
 };
 
-/** Run simulation for all provided angles sequentially */
+/**
+ * Run every angle's variants, at most `angleConcurrency` angles at a time.
+ * Failures are reported per angle through onProgress and never reject; an
+ * aborted signal stops everything and rejects with the AbortError.
+ */
 export const runSimulation = async (
-  originals: Record<SimulationAngle, string | null>,
-  composites: Record<SimulationAngle, string | null>,
-  onResult: (angle: SimulationAngle, result: { image?: string; error?: string }) => void
+  inputs: SimulationInput[],
+  { angleConcurrency = ANGLE_CONCURRENCY, onProgress, ...variantOptions }: RunSimulationOptions = {}
 ): Promise<void> => {
-  const angles: SimulationAngle[] = ['frontal', 'top'];
-
-  for (const angle of angles) {
-    const original = originals[angle];
-    const composite = composites[angle];
-    if (!original || !composite) continue;
-    try {
-      const image = await simulateAngle(original, composite, angle);
-      onResult(angle, { image });
-    } catch (err: any) {
-      console.error(`[${angle}] Erro:`, err);
-      onResult(angle, { error: err?.message || 'Erro desconhecido' });
-    }
-  }
+  const { signal } = variantOptions;
+
+  await mapWithConcurrency(
+    inputs,
+    angleConcurrency,
+    async ({ angle, originalDataUrl, compositeDataUrl, rawDrawingDataUrl, provider, hair }) => {
+      const startedAt = Date.now();
+      onProgress?.({ type: 'start', angle, startedAt });
+
+      try {
+        const results = await simulateAngleVariants(
+          originalDataUrl,
+          compositeDataUrl,
+          angle,
+          rawDrawingDataUrl,
+          {
+            ...variantOptions,
+            provider,
+            hair,
+            onVariant: (index, result) =>
+              onProgress?.({ type: 'variant', angle, index, result, elapsedMs: Date.now() - startedAt }),
+          }
+        );
+        onProgress?.({ type: 'done', angle, results, elapsedMs: Date.now() - startedAt });
+      } catch (err) {
+        if (isAbortError(err)) throw err;
+        const error = classifyError(err);
+        console.error(`[${angle}] Erro:`, err);
+        onProgress?.({ type: 'error', angle, error, elapsedMs: Date.now() - startedAt });
+      }
+    },
+    signal
+  );
 };
@@ -0,0 +1,52 @@
+import { describe, expect, it } from 'vitest';
+import { findHairEdge, type Raster } from './hairSampler';
+
+const SIZE = 60;
+
+/** Noisy dark hair where `isHair`, flat skin elsewhere */
+const raster = (isHair: (x: number, y: number) => boolean): Raster => {
+  const rgb = new Uint8ClampedArray(SIZE * SIZE * 4);
+  const luma = new Float32Array(SIZE * SIZE);
+  for (let y = 0; y < SIZE; y++) {
+    for (let x = 0; x < SIZE; x++) {
+      const i = y * SIZE + x;
+      // Strands: alternating dark and darker columns
+      const [r, g, b] = isHair(x, y) ? (x % 2 ? [20, 15, 10] : [70, 50, 35]) : [210, 170, 150];
+      rgb.set([r, g, b, 255], i * 4);
+      luma[i] = 0.299 * r + 0.587 * g + 0.114 * b;
+    }
+  }
+  return { width: SIZE, height: SIZE, rgb, luma, scale: 1 };
+};
+
+describe('findHairEdge', () => {
+  it('measures the distance from the line up to the hair', () => {
+    const edge = findHairEdge(raster((_, y) => y < 30), {
+      points: [{ x: 5, y: 40 }, { x: 30, y: 40 }, { x: 55, y: 40 }],
+      direction: -1,
+    });
+    expect(edge).not.toBeNull();
+    // First hair row is y = 29, plus a small overlap into it
+    edge!.forEach((d) => expect(d).toBeCloseTo(11.6, 1));
+  });
+
+  it('follows the normal of a steep line sideways', () => {
+    const edge = findHairEdge(raster((x) => x < 30), {
+      points: [{ x: 40, y: 5 }, { x: 42, y: 55 }],
+      direction: 1,
+    });
+    expect(edge).not.toBeNull();
+    edge!.forEach((d) => {
+      expect(d).toBeGreaterThan(9);
+      expect(d).toBeLessThan(15);
+    });
+  });
+
+  it('is null without hair beyond the line', () => {
+    expect(findHairEdge(raster(() => false), { points: [{ x: 5, y: 40 }, { x: 55, y: 40 }], direction: -1 })).toBeNull();
+  });
+
+  it('is null when the line is drawn inside the hair', () => {
+    expect(findHairEdge(raster(() => true), { points: [{ x: 5, y: 40 }, { x: 55, y: 40 }], direction: -1 })).toBeNull();
+  });
+});
@@ -0,0 +1,310 @@
+/**
+ * Samples the patient's existing hair: a small palette (darkest to
+ * lightest) and a coarse texture hint, used for the pre-fill and described
+ * in the prompt so the model stops defaulting to near-black hair.
+ *
+ * Either from a point the consultant clicked, or detected automatically in
+ * the band just outside the painted area. The same clustering finds where the
+ * existing hair starts beyond a vector hairline.
+ */
+
+import { hairlineNormals, sampleHairlineCurve } from "./drawing";
+import { loadImage } from "./imageUtils";
+import type { HairlineAction, HairProfile, HairTexture, Point } from "../types";
+
+/** Work on a small copy: colour statistics do not need full resolution */
+const SAMPLE_MAX_SIDE = 512;
+
+/** Patch around a clicked point, as a fraction of the shorter side */
+const PATCH_RADIUS = 0.025;
+
+/** Width of the band searched around the mask, as a fraction of the shorter side */
+const RING_WIDTH = 0.06;
+
+/** Luma quantiles that become the palette */
+const PALETTE_QUANTILES = [0.15, 0.5, 0.85];
+
+/** How far beyond a hairline the existing hair is searched, as a fraction of the shorter side */
+const EDGE_REACH = 0.3;
+
+/** Consecutive hair pixels along a normal that count as reaching the hair */
+const EDGE_RUN = 3;
+
+/** Overlap into the hair so the fill meets it without a gap, as a fraction of the shorter side */
+const EDGE_OVERLAP = 0.01;
+
+/** Curve samples on each side in the median that smooths the edge */
+const EDGE_SMOOTHING = 3;
+
+/** Structure-tensor coherence limits between straight, wavy and curly */
+const STRAIGHT_COHERENCE = 0.45;
+const WAVY_COHERENCE = 0.25;
+
+export interface Raster {
+  width: number;
+  height: number;
+  rgb: Uint8ClampedArray;
+  luma: Float32Array;
+  /** Scale from the source's natural pixels to this raster */
+  scale: number;
+}
+
+const rasterize = (img: HTMLImageElement | HTMLCanvasElement, width: number, height: number, scale: number): Raster => {
+  const canvas = document.createElement("canvas");
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext("2d")!;
+  ctx.drawImage(img, 0, 0, width, height);
+  const rgb = ctx.getImageData(0, 0, width, height).data;
+  const luma = new Float32Array(width * height);
+  for (let i = 0; i < luma.length; i++) {
+    luma[i] = 0.299 * rgb[i * 4] + 0.587 * rgb[i * 4 + 1] + 0.114 * rgb[i * 4 + 2];
+  }
+  return { width, height, rgb, luma, scale };
+};
+
+const loadRaster = async (src: string): Promise<Raster> => {
+  const img = await loadImage(src);
+  const scale = Math.min(1, SAMPLE_MAX_SIDE / Math.max(img.naturalWidth, img.naturalHeight));
+  return rasterize(
+    img,
+    Math.max(1, Math.round(img.naturalWidth * scale)),
+    Math.max(1, Math.round(img.naturalHeight * scale)),
+    scale
+  );
+};
+
+const toHex = (r: number, g: number, b: number) =>
+  "#" + [r, g, b].map((v) => Math.round(v).toString(16).padStart(2, "0")).join("");
+
+/** Palette and texture from a set of pixel indices of the raster */
+const profileFromPixels = (raster: Raster, indices: number[]): Omit<HairProfile, "source"> => {
+  const { width, height, rgb, luma } = raster;
+  const sorted = [...indices].sort((a, b) => luma[a] - luma[b]);
+
+  // Average a small window around each quantile, so one odd pixel does not decide
+  const window = Math.max(1, Math.round(sorted.length * 0.05));
+  const palette = PALETTE_QUANTILES.map((q) => {
+    const center = Math.min(sorted.length - 1, Math.floor(q * sorted.length));
+    const from = Math.max(0, center - window);
+    const to = Math.min(sorted.length, center + window + 1);
+    let r = 0;
+    let g = 0;
+    let b = 0;
+    for (let k = from; k < to; k++) {
+      const p = sorted[k] * 4;
+      r += rgb[p];
+      g += rgb[p + 1];
+      b += rgb[p + 2];
+    }
+    const n = to - from;
+    return toHex(r / n, g / n, b / n);
+  });
+
+  // Structure tensor: strands running one way give a coherent orientation
+  let jxx = 0;
+  let jyy = 0;
+  let jxy = 0;
+  for (const i of indices) {
+    const x = i % width;
+    const y = (i - x) / width;
+    if (x < 1 || y < 1 || x >= width - 1 || y >= height - 1) continue;
+    const gx = luma[i + 1] - luma[i - 1];
+    const gy = luma[i + width] - luma[i - width];
+    jxx += gx * gx;
+    jyy += gy * gy;
+    jxy += gx * gy;
+  }
+  const trace = jxx + jyy;
+  const coherence = trace > 0 ? Math.sqrt((jxx - jyy) ** 2 + 4 * jxy * jxy) / trace : 0;
+  const texture: HairTexture =
+    coherence >= STRAIGHT_COHERENCE ? "straight" : coherence >= WAVY_COHERENCE ? "wavy" : "curly";
+
+  return { palette, texture };
+};
+
+/**
+ * Split `ring` pixels (none on the raster border) in two colour clusters and
+ * keep the one with more fine detail: hair is busier than skin or
+ * background. Null when that cluster is too small to be hair.
+ */
+const findHairCluster = (
+  raster: Raster,
+  ring: number[]
+): { hair: number[]; isHair: (i: number) => boolean } | null => {
+  const { width, rgb, luma } = raster;
+
+  // Two-means on colour, seeded with the darkest and lightest ring pixels
+  const byLuma = [...ring].sort((a, b) => luma[a] - luma[b]);
+  const seed = (i: number) => [rgb[i * 4], rgb[i * 4 + 1], rgb[i * 4 + 2]];
+  let centers = [seed(byLuma[Math.floor(byLuma.length * 0.1)]), seed(byLuma[Math.floor(byLuma.length * 0.9)])];
+  const nearest = (i: number) => {
+    const p = i * 4;
+    const d = centers.map(([r, g, b]) => (rgb[p] - r) ** 2 + (rgb[p + 1] - g) ** 2 + (rgb[p + 2] - b) ** 2);
+    return d[0] <= d[1] ? 0 : 1;
+  };
+  const labels = new Uint8Array(ring.length);
+  for (let iter = 0; iter < 8; iter++) {
+    const sums = [[0, 0, 0, 0], [0, 0, 0, 0]];
+    ring.forEach((i, k) => {
+      const p = i * 4;
+      const label = nearest(i);
+      labels[k] = label;
+      sums[label][0] += rgb[p];
+      sums[label][1] += rgb[p + 1];
+      sums[label][2] += rgb[p + 2];
+      sums[label][3]++;
+    });
+    centers = sums.map(([r, g, b, n], c) => (n ? [r / n, g / n, b / n] : centers[c]));
+  }
+
+  // Local luma variance (3x3) per cluster: hair is the busier one
+  const detail = [0, 0];
+  const counts = [0, 0];
+  ring.forEach((i, k) => {
+    let sum = 0;
+    let sumSq = 0;
+    for (const o of [-width - 1, -width, -width + 1, -1, 0, 1, width - 1, width, width + 1]) {
+      sum += luma[i + o];
+      sumSq += luma[i + o] ** 2;
+    }
+    detail[labels[k]] += sumSq / 9 - (sum / 9) ** 2;
+    counts[labels[k]]++;
+  });
+  const hairLabel = detail[0] / (counts[0] || 1) >= detail[1] / (counts[1] || 1) ? 0 : 1;
+  const hair = ring.filter((_, k) => labels[k] === hairLabel);
+  if (hair.length < ring.length * 0.05) return null;
+
+  return { hair, isHair: (i) => nearest(i) === hairLabel };
+};
+
+/** Sample the hair around a point (natural pixels of the photo) */
+export const sampleHairAt = async (src: string, point: Point): Promise<HairProfile> => {
+  const raster = await loadRaster(src);
+  const { width, height, scale } = raster;
+  const radius = Math.max(4, Math.round(Math.min(width, height) * PATCH_RADIUS));
+  const cx = Math.round(point.x * scale);
+  const cy = Math.round(point.y * scale);
+
+  const indices: number[] = [];
+  for (let y = Math.max(0, cy - radius); y <= Math.min(height - 1, cy + radius); y++) {
+    for (let x = Math.max(0, cx - radius); x <= Math.min(width - 1, cx + radius); x++) {
+      if ((x - cx) ** 2 + (y - cy) ** 2 <= radius * radius) indices.push(y * width + x);
+    }
+  }
+  return { ...profileFromPixels(raster, indices), source: "picked", point };
+};
+
+/**
+ * Find the existing hair next to the painted area, in the band just outside
+ * the mask. Null when the band is too small or holds no clear hair cluster.
+ */
+export const detectHair = async (src: string, rawDrawingDataUrl: string): Promise<HairProfile | null> => {
+  const raster = await loadRaster(src);
+  const { width, height } = raster;
+  const maskImg = await loadImage(rawDrawingDataUrl);
+  const mask = rasterize(maskImg, width, height, raster.scale);
+
+  // Integral image of the mask, to test "near the mask" with one lookup per pixel
+  const stride = width + 1;
+  const integral = new Uint32Array(stride * (height + 1));
+  for (let y = 0; y < height; y++) {
+    let rowSum = 0;
+    for (let x = 0; x < width; x++) {
+      rowSum += mask.rgb[(y * width + x) * 4 + 3] > 0 ? 1 : 0;
+      integral[(y + 1) * stride + x + 1] = integral[y * stride + x + 1] + rowSum;
+    }
+  }
+  const painted = integral[height * stride + width];
+  if (painted === 0) return null;
+
+  const reach = Math.max(3, Math.round(Math.min(width, height) * RING_WIDTH));
+  const ring: number[] = [];
+  for (let y = 1; y < height - 1; y++) {
+    const y0 = Math.max(0, y - reach);
+    const y1 = Math.min(height, y + reach + 1);
+    for (let x = 1; x < width - 1; x++) {
+      const i = y * width + x;
+      if (mask.rgb[i * 4 + 3] > 0) continue;
+      const x0 = Math.max(0, x - reach);
+      const x1 = Math.min(width, x + reach + 1);
+      const near = integral[y1 * stride + x1] - integral[y0 * stride + x1] - integral[y1 * stride + x0] + integral[y0 * stride + x0];
+      if (near > 0) ring.push(i);
+    }
+  }
+  if (ring.length < 50) return null;
+
+  const cluster = findHairCluster(raster, ring);
+  if (!cluster) return null;
+
+  return { ...profileFromPixels(raster, cluster.hair), source: "auto" };
+};
+
+/**
+ * Distance in natural pixels from each hairline curve sample (see
+ * sampleHairlineCurve) along its normal to the existing hair. Null when no
+ * clear hair cluster lies beyond the line, or fewer than half the samples
+ * reach it; the hairline then falls back to its fixed depth.
+ */
+export const findHairEdge = (
+  raster: Raster,
+  hairline: Pick<HairlineAction, "points" | "direction">
+): number[] | null => {
+  const { width, height, scale } = raster;
+  const curve = sampleHairlineCurve(hairline.points).map((p) => ({ x: p.x * scale, y: p.y * scale }));
+  if (curve.length < 2) return null;
+  const normals = hairlineNormals(curve, hairline.direction);
+  const reach = Math.round(Math.min(width, height) * EDGE_REACH);
+
+  // Pixels along each normal, from the line outward
+  const rays = curve.map((p, k) => {
+    const ray: number[] = [];
+    for (let t = 0; t <= reach; t++) {
+      const x = Math.round(p.x + normals[k].x * t);
+      const y = Math.round(p.y + normals[k].y * t);
+      if (x < 1 || y < 1 || x >= width - 1 || y >= height - 1) break;
+      ray.push(y * width + x);
+    }
+    return ray;
+  });
+  const band = [...new Set(rays.flat())];
+  if (band.length < 50) return null;
+
+  // The line must start outside the hair: a band of hair only has no edge
+  const cluster = findHairCluster(raster, band);
+  if (!cluster || cluster.hair.length > band.length * 0.95) return null;
+
+  const hits = rays.map((ray) => {
+    let run = 0;
+    for (let t = 0; t < ray.length; t++) {
+      run = cluster.isHair(ray[t]) ? run + 1 : 0;
+      if (run === EDGE_RUN) return t - EDGE_RUN + 1;
+    }
+    return null;
+  });
+  if (hits.filter((t) => t !== null).length < hits.length / 2) return null;
+
+  // Samples that found no hair take the nearest one that did
+  const filled = hits.map((t, k) => {
+    if (t !== null) return t;
+    for (let d = 1; ; d++) {
+      const near = hits[k - d] ?? hits[k + d];
+      if (near !== null && near !== undefined) return near;
+    }
+  });
+
+  // Median over neighbours, so one stray dark pixel does not spike the fill
+  const overlap = Math.min(width, height) * EDGE_OVERLAP;
+  return filled.map((_, k) => {
+    const window = filled
+      .slice(Math.max(0, k - EDGE_SMOOTHING), k + EDGE_SMOOTHING + 1)
+      .sort((a, b) => a - b);
+    return (window[Math.floor(window.length / 2)] + overlap) / scale;
+  });
+};
+
+/** findHairEdge on a photo */
+export const detectHairEdge = async (
+  src: string,
+  hairline: Pick<HairlineAction, "points" | "direction">
+): Promise<number[] | null> => findHairEdge(await loadRaster(src), hairline);
@@ -0,0 +1,58 @@
+import { describe, expect, it } from 'vitest';
+import { blendInsideMask } from './imageUtils';
+
+const W = 40;
+const H = 30;
+
+/** RGBA buffer filled per pixel */
+const image = (pixel: (x: number, y: number) => [number, number, number, number]) => {
+  const data = new Uint8ClampedArray(W * H * 4);
+  for (let y = 0; y < H; y++) {
+    for (let x = 0; x < W; x++) data.set(pixel(x, y), (y * W + x) * 4);
+  }
+  return data;
+};
+
+// Varied, so an accidental write of any value would show
+const original = () => image((x, y) => [(x * 7 + y) % 256, (y * 11) % 256, (x * y) % 256, 255]);
+const generated = image(() => [250, 10, 120, 255]);
+const painted = (x: number, y: number) => (x >= 10 && x < 30 && y >= 8 && y < 22) || x === 35;
+const mask = image((x, y) => (painted(x, y) ? [0, 255, 0, 160] : [0, 0, 0, 0]));
+
+describe('blendInsideMask', () => {
+  it('leaves every unpainted pixel unchanged', () => {
+    const before = original();
+    const out = before.slice();
+    blendInsideMask(out, generated, mask, W, H, 3);
+
+    for (let y = 0; y < H; y++) {
+      for (let x = 0; x < W; x++) {
+        if (painted(x, y)) continue;
+        const p = (y * W + x) * 4;
+        expect([...out.subarray(p, p + 4)]).toEqual([...before.subarray(p, p + 4)]);
+      }
+    }
+  });
+
+  it('uses the generated image inside the area and along a thin stroke', () => {
+    const out = original();
+    blendInsideMask(out, generated, mask, W, H, 3);
+
+    const at = (x: number, y: number) => [...out.subarray((y * W + x) * 4, (y * W + x) * 4 + 3)];
+    expect(at(20, 15)).toEqual([250, 10, 120]);
+    // One pixel wide, far thinner than the feather and close to the wide area
+    expect(at(35, 15)).toEqual([250, 10, 120]);
+  });
+
+  it('feathers the edge of a wide area inward', () => {
+    const before = original();
+    const out = before.slice();
+    blendInsideMask(out, generated, mask, W, H, 3);
+
+    const edge = (15 * W + 10) * 4;
+    const inside = (15 * W + 12) * 4;
+    const progress = (p: number) => (out[p] - before[p]) / (250 - before[p]);
+    expect(progress(edge)).toBeLessThan(0.5);
+    expect(progress(inside)).toBeGreaterThan(progress(edge));
+  });
+});
@@ -0,0 +1,478 @@
+/**
+ * Browser-side image helpers shared by the simulation service and providers.
+ *
+ * Everything here relies on <canvas>/Image, so it must not be imported from
+ * server code (api/*).
+ */
+
+import type { DensityLevel } from "../types";
+
+// ---------------------------------------------------------------------------
+// Loading / encoding
+// ---------------------------------------------------------------------------
+
+export const loadImage = (src: string, crossOrigin?: "anonymous"): Promise<HTMLImageElement> => {
+  return new Promise((resolve, reject) => {
+    const img = new Image();
+    // Remote results (fal.ai) must be CORS-clean to read their pixels back
+    if (crossOrigin) img.crossOrigin = crossOrigin;
+    img.onload = () => resolve(img);
+    img.onerror = () => reject(new Error("Falha ao carregar imagem"));
+    img.src = src;
+  });
+};
+
+export const compressImage = (
+  base64DataUrl: string,
+  maxSize = 1536,
+  quality = 0.85
+): Promise<string> => {
+  return new Promise((resolve) => {
+    const img = new Image();
+    img.onload = () => {
+      const canvas = document.createElement("canvas");
+      let { width, height } = img;
+      if (width > maxSize || height > maxSize) {
+        const ratio = Math.min(maxSize / width, maxSize / height);
+        width = Math.round(width * ratio);
+        height = Math.round(height * ratio);
+      }
+      canvas.width = width;
+      canvas.height = height;
+      const ctx = canvas.getContext("2d")!;
+      ctx.drawImage(img, 0, 0, width, height);
+      resolve(canvas.toDataURL("image/jpeg", quality));
+    };
+    img.onerror = () => resolve(base64DataUrl);
+    img.src = base64DataUrl;
+  });
+};
+
+// ---------------------------------------------------------------------------
+// Masks
+// ---------------------------------------------------------------------------
+
+/**
+ * Convert the raw drawing layer (transparent + red strokes) into a
+ * black/white inpainting mask: white where the user painted, black elsewhere.
+ * Resized to `width` x `height` so it lines up with the image sent alongside.
+ */
+export const buildBinaryMask = async (
+  rawDrawingDataUrl: string,
+  width: number,
+  height: number
+): Promise<string> => {
+  const maskImg = await loadImage(rawDrawingDataUrl);
+  const canvas = document.createElement("canvas");
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext("2d")!;
+  ctx.drawImage(maskImg, 0, 0, width, height);
+
+  const imgData = ctx.getImageData(0, 0, width, height);
+  const pixels = imgData.data;
+  for (let i = 0; i < pixels.length; i += 4) {
+    const value = pixels[i + 3] > 0 ? 255 : 0;
+    pixels[i] = value;
+    pixels[i + 1] = value;
+    pixels[i + 2] = value;
+    pixels[i + 3] = 255;
+  }
+  ctx.putImageData(imgData, 0, 0);
+  return canvas.toDataURL("image/png");
+};
+
+// ---------------------------------------------------------------------------
+// Pre-fill
+// ---------------------------------------------------------------------------
+
+/**
+ * Share of each painted pixel covered by the dark base, per density level.
+ * Below full, the scalp shows through and the model has less to texturize.
+ */
+const PREFILL_COVERAGE: Record<DensityLevel, number> = {
+  conservative: 0.55,
+  moderate: 0.78,
+  full: 1,
+};
+
+/**
+ * Paint the masked area with a hair-coloured base the model then texturizes.
+ * Without a sampled `palette` the base is near-black, which darkens light
+ * hair; with one, each pixel takes a random palette colour. `strength`
+ * (0–1) thins the base further: intermediate timeline stages, and beard hair
+ * that grows sparser than scalp hair.
+ */
+export const applyHairBaseTexture = (
+  originalDataUrl: string,
+  rawDrawingDataUrl: string,
+  density: DensityLevel = "full",
+  palette?: string[],
+  strength = 1
+): Promise<string> => {
+  const coverage = PREFILL_COVERAGE[density] * strength;
+  const baseColors = palette?.length
+    ? palette.map((hex) => [1, 3, 5].map((i) => parseInt(hex.slice(i, i + 2), 16)))
+    : null;
+
+  return new Promise((resolve) => {
+    const origImg = new Image();
+    origImg.onload = () => {
+      const maskImg = new Image();
+      maskImg.onload = () => {
+        const canvas = document.createElement("canvas");
+        canvas.width = origImg.width;
+        canvas.height = origImg.height;
+        const ctx = canvas.getContext("2d")!;
+
+        // Draw original
+        ctx.drawImage(origImg, 0, 0);
+        const imgData = ctx.getImageData(0, 0, canvas.width, canvas.height);
+        const pixels = imgData.data;
+
+        // Draw mask to a temporary canvas to get its pixels
+        const maskCanvas = document.createElement("canvas");
+        maskCanvas.width = origImg.width;
+        maskCanvas.height = origImg.height;
+        const maskCtx = maskCanvas.getContext("2d")!;
+        maskCtx.drawImage(maskImg, 0, 0, maskCanvas.width, maskCanvas.height);
+        const maskData = maskCtx.getImageData(0, 0, maskCanvas.width, maskCanvas.height).data;
+
+        for (let i = 0; i < pixels.length; i += 4) {
+          // If mask has any alpha (meaning it was drawn on)
+          if (maskData[i + 3] > 0) {
+            // Apply an extremely dark base to force Gemini to see it as hair
+            // Almost pitch black, with just a tiny bit of noise to avoid looking like a void
+            // (or the patient's own hair colours when sampled)
+            const noise = Math.random() * 15;
+            const [baseR, baseG, baseB] = baseColors
+              ? baseColors[Math.floor(Math.random() * baseColors.length)]
+              : [10, 8, 8];
+            // Below full coverage, blend over the skin with a per-pixel jitter
+            const a = coverage >= 1 ? 1 : Math.min(1, Math.max(0, coverage + (Math.random() - 0.5) * 0.3));
+            pixels[i] = Math.min(255, Math.max(0, pixels[i] * (1 - a) + (baseR + noise) * a));         // R
+            pixels[i + 1] = Math.min(255, Math.max(0, pixels[i + 1] * (1 - a) + (baseG + noise) * a)); // G
+            pixels[i + 2] = Math.min(255, Math.max(0, pixels[i + 2] * (1 - a) + (baseB + noise) * a)); // B
+            // Ensure full opacity
+            pixels[i + 3] = 255;
+          }
+        }
+
+        ctx.putImageData(imgData, 0, 0);
+        resolve(canvas.toDataURL("image/jpeg", 0.95));
+      };
+      maskImg.src = rawDrawingDataUrl;
+    };
+    origImg.src = originalDataUrl;
+  });
+};
+
+/**
+ * Count the painted (non-transparent) pixels of a drawing layer, in the
+ * layer's own resolution. Large layers are sampled on a smaller copy and the
+ * count scaled back, which is plenty for an area estimate.
+ */
+export const measureMaskPixels = (layer: HTMLCanvasElement, maxSide = 1024): number => {
+  const ratio = Math.min(1, maxSide / Math.max(layer.width, layer.height));
+  const width = Math.max(1, Math.round(layer.width * ratio));
+  const height = Math.max(1, Math.round(layer.height * ratio));
+
+  const canvas = document.createElement("canvas");
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext("2d")!;
+  ctx.drawImage(layer, 0, 0, width, height);
+  const data = ctx.getImageData(0, 0, width, height).data;
+
+  let painted = 0;
+  for (let i = 3; i < data.length; i += 4) {
+    if (data[i] > 0) painted++;
+  }
+  return Math.round(painted * (layer.width / width) * (layer.height / height));
+};
+
+// ---------------------------------------------------------------------------
+// Symmetry
+// ---------------------------------------------------------------------------
+
+/**
+ * Guess the face midline of a frontal photo: the vertical axis (searched in
+ * the middle 30% of the width) across which the image best mirrors itself.
+ * Returns the axis x in the image's natural pixels.
+ */
+export const suggestSymmetryAxis = (img: HTMLImageElement): number => {
+  const sampleWidth = 128;
+  const scale = sampleWidth / img.naturalWidth;
+  const sampleHeight = Math.max(1, Math.round(img.naturalHeight * scale));
+
+  const canvas = document.createElement("canvas");
+  canvas.width = sampleWidth;
+  canvas.height = sampleHeight;
+  const ctx = canvas.getContext("2d")!;
+  ctx.drawImage(img, 0, 0, sampleWidth, sampleHeight);
+  const data = ctx.getImageData(0, 0, sampleWidth, sampleHeight).data;
+
+  const gray = new Float32Array(sampleWidth * sampleHeight);
+  for (let i = 0; i < gray.length; i++) {
+    gray[i] = 0.299 * data[i * 4] + 0.587 * data[i * 4 + 1] + 0.114 * data[i * 4 + 2];
+  }
+
+  const reach = Math.round(sampleWidth * 0.25);
+  let bestAxis = sampleWidth / 2;
+  let bestScore = Infinity;
+
+  for (let axis = Math.round(sampleWidth * 0.35); axis <= Math.round(sampleWidth * 0.65); axis++) {
+    const span = Math.min(reach, axis, sampleWidth - 1 - axis);
+    let diff = 0;
+    for (let y = 0; y < sampleHeight; y++) {
+      const row = y * sampleWidth;
+      for (let d = 1; d <= span; d++) {
+        diff += Math.abs(gray[row + axis - d] - gray[row + axis + d]);
+      }
+    }
+    const score = diff / (span * sampleHeight);
+    if (score < bestScore) {
+      bestScore = score;
+      bestAxis = axis;
+    }
+  }
+
+  return bestAxis / scale;
+};
+
+// ---------------------------------------------------------------------------
+// Recomposition
+// ---------------------------------------------------------------------------
+
+/**
+ * Separable box blur on a single-channel float buffer (in place).
+ * Three passes approximate a gaussian.
+ */
+const boxBlur = (values: Float32Array, width: number, height: number, radius: number) => {
+  const tmp = new Float32Array(values.length);
+  const size = radius * 2 + 1;
+
+  for (let pass = 0; pass < 3; pass++) {
+    // Horizontal: values -> tmp
+    for (let y = 0; y < height; y++) {
+      const row = y * width;
+      let sum = 0;
+      for (let x = -radius; x <= radius; x++) {
+        sum += values[row + Math.min(width - 1, Math.max(0, x))];
+      }
+      for (let x = 0; x < width; x++) {
+        tmp[row + x] = sum / size;
+        sum += values[row + Math.min(width - 1, x + radius + 1)];
+        sum -= values[row + Math.max(0, x - radius)];
+      }
+    }
+    // Vertical: tmp -> values
+    for (let x = 0; x < width; x++) {
+      let sum = 0;
+      for (let y = -radius; y <= radius; y++) {
+        sum += tmp[Math.min(height - 1, Math.max(0, y)) * width + x];
+      }
+      for (let y = 0; y < height; y++) {
+        values[y * width + x] = sum / size;
+        sum += tmp[Math.min(height - 1, y + radius + 1) * width + x];
+        sum -= tmp[Math.max(0, y - radius) * width + x];
+      }
+    }
+  }
+};
+
+/**
+ * Sliding-window maximum on a single-channel float buffer (in place), both
+ * axes. Van Herk/Gil-Werman: block prefix and suffix maxima, so the cost does
+ * not depend on the radius.
+ */
+const maxFilter = (values: Float32Array, width: number, height: number, radius: number) => {
+  const size = radius * 2 + 1;
+
+  // Lines are padded with zeros (values are >= 0) so every window is whole
+  const filterLine = (read: (i: number) => number, write: (i: number, v: number) => void, length: number) => {
+    const padded = length + radius * 2;
+    const prefix = new Float32Array(padded);
+    const suffix = new Float32Array(padded);
+    const at = (j: number) => (j < radius || j >= length + radius ? 0 : read(j - radius));
+    for (let j = 0; j < padded; j++) {
+      prefix[j] = j % size === 0 ? at(j) : Math.max(prefix[j - 1], at(j));
+    }
+    for (let j = padded - 1; j >= 0; j--) {
+      suffix[j] = j === padded - 1 || (j + 1) % size === 0 ? at(j) : Math.max(suffix[j + 1], at(j));
+    }
+    for (let i = 0; i < length; i++) write(i, Math.max(suffix[i], prefix[i + radius * 2]));
+  };
+
+  for (let y = 0; y < height; y++) {
+    const row = y * width;
+    const line = values.slice(row, row + width);
+    filterLine((x) => line[x], (x, v) => (values[row + x] = v), width);
+  }
+  for (let x = 0; x < width; x++) {
+    const column = new Float32Array(height);
+    for (let y = 0; y < height; y++) column[y] = values[y * width + x];
+    filterLine((y) => column[y], (y, v) => (values[y * width + x] = v), height);
+  }
+};
+
+/**
+ * Blend `generated` into `original` (RGBA, same size) in place, only where
+ * `mask` (RGBA) has any alpha. The edge is feathered inward only, scaled to
+ * the local stroke. Strokes too thin to survive an erosion by the feather
+ * (eyebrow hairs) fall back to the hard mask instead of fading out.
+ * Unpainted pixels are not written.
+ */
+export const blendInsideMask = (
+  original: Uint8ClampedArray,
+  generated: Uint8ClampedArray,
+  mask: Uint8ClampedArray,
+  width: number,
+  height: number,
+  feather: number
+) => {
+  // Binary mask (any alpha counts as painted, like applyHairBaseTexture)
+  const hard = new Uint8Array(width * height);
+  const soft = new Float32Array(width * height);
+  for (let i = 0; i < hard.length; i++) {
+    if (mask[i * 4 + 3] > 0) {
+      hard[i] = 1;
+      soft[i] = 1;
+    }
+  }
+
+  boxBlur(soft, width, height, feather);
+  // Strongest blurred value nearby (the blur spreads over 3 radii): 1 inside
+  // wide areas, lower along thin strokes
+  const peak = soft.slice();
+  maxFilter(peak, width, height, feather * 3);
+
+  // Opening (erode, then dilate) keeps only the areas wide enough to feather
+  const wide = new Float32Array(hard.length);
+  for (let i = 0; i < hard.length; i++) wide[i] = 1 - hard[i];
+  maxFilter(wide, width, height, feather);
+  for (let i = 0; i < hard.length; i++) wide[i] = 1 - wide[i];
+  maxFilter(wide, width, height, feather);
+
+  for (let i = 0; i < hard.length; i++) {
+    if (!hard[i]) continue;
+    // Remap so the blend reaches 0 at the mask edge and 1 further inside
+    const a = wide[i] ? Math.min(1, Math.max(0, (soft[i] / peak[i] - 0.5) * 2)) : 1;
+    if (a === 0) continue;
+    const p = i * 4;
+    original[p] = original[p] + (generated[p] - original[p]) * a;
+    original[p + 1] = original[p + 1] + (generated[p + 1] - original[p + 1]) * a;
+    original[p + 2] = original[p + 2] + (generated[p + 2] - original[p + 2]) * a;
+  }
+};
+
+/**
+ * Blend the generated image back onto the original, only inside the mask.
+ *
+ * - The generated image is scaled (center-cropped if the aspect differs) to
+ *   the original's exact resolution.
+ * - The mask edge is feathered inward only (see blendInsideMask).
+ * - The result is a PNG: any pixel the user did not paint keeps the decoded
+ *   original value bit-for-bit, with no JPEG loss stacking across retries.
+ */
+export const recomposeWithMask = async (
+  originalDataUrl: string,
+  generatedUrl: string,
+  rawDrawingDataUrl: string,
+  featherPx?: number
+): Promise<string> => {
+  const [origImg, genImg, maskImg] = await Promise.all([
+    loadImage(originalDataUrl),
+    loadImage(generatedUrl, "anonymous"),
+    loadImage(rawDrawingDataUrl),
+  ]);
+
+  const width = origImg.naturalWidth;
+  const height = origImg.naturalHeight;
+  const feather = featherPx ?? Math.max(2, Math.round(Math.min(width, height) * 0.006));
+
+  const readPixels = (draw: (ctx: CanvasRenderingContext2D) => void) => {
+    const canvas = document.createElement("canvas");
+    canvas.width = width;
+    canvas.height = height;
+    const ctx = canvas.getContext("2d")!;
+    draw(ctx);
+    return { canvas, ctx, imgData: ctx.getImageData(0, 0, width, height) };
+  };
+
+  const original = readPixels((ctx) => ctx.drawImage(origImg, 0, 0, width, height));
+
+  // Re-align: center-crop the generated image to the original aspect, then scale
+  const genW = genImg.naturalWidth;
+  const genH = genImg.naturalHeight;
+  if (Math.abs(genW / genH - width / height) > 0.01 * (width / height)) {
+    // The crop assumes the model kept the framing; a different aspect usually means it did not
+    console.warn(
+      `[recompose] Generated ${genW}x${genH} does not match the original ${width}x${height} aspect; center-cropping, the mask may be misaligned`
+    );
+  }
+  const generated = readPixels((ctx) => {
+    const scale = Math.max(width / genW, height / genH);
+    const srcW = width / scale;
+    const srcH = height / scale;
+    ctx.drawImage(genImg, (genW - srcW) / 2, (genH - srcH) / 2, srcW, srcH, 0, 0, width, height);
+  });
+
+  const mask = readPixels((ctx) => ctx.drawImage(maskImg, 0, 0, width, height));
+
+  blendInsideMask(original.imgData.data, generated.imgData.data, mask.imgData.data, width, height, feather);
+
+  original.ctx.putImageData(original.imgData, 0, 0);
+  return original.canvas.toDataURL("image/png");
+};
+
+// ---------------------------------------------------------------------------
+// Timeline strip
+// ---------------------------------------------------------------------------
+
+/**
+ * Frames side by side at a common height, each captioned underneath, as one
+ * JPEG data URL. Frames that fail to load are left out.
+ */
+export const composeImageStrip = async (
+  frames: { label: string; src: string }[],
+  frameHeight = 720
+): Promise<string> => {
+  const loaded = (
+    await Promise.all(
+      frames.map(async ({ label, src }) => {
+        try {
+          const local = src.startsWith("data:") || src.startsWith("blob:");
+          return { label, img: await loadImage(src, local ? undefined : "anonymous") };
+        } catch {
+          return null;
+        }
+      })
+    )
+  ).filter((frame): frame is { label: string; img: HTMLImageElement } => frame !== null);
+  if (loaded.length === 0) throw new Error("Nenhuma imagem disponivel");
+
+  const gap = Math.round(frameHeight * 0.02);
+  const captionHeight = Math.round(frameHeight * 0.1);
+  const widths = loaded.map(({ img }) => Math.round((img.naturalWidth * frameHeight) / img.naturalHeight));
+
+  const canvas = document.createElement("canvas");
+  canvas.width = widths.reduce((sum, w) => sum + w, 0) + gap * (loaded.length + 1);
+  canvas.height = frameHeight + captionHeight + gap * 2;
+  const ctx = canvas.getContext("2d")!;
+  ctx.fillStyle = "#fff";
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+  ctx.fillStyle = "#1D4998";
+  ctx.font = `900 ${Math.round(captionHeight * 0.45)}px sans-serif`;
+  ctx.textAlign = "center";
+  ctx.textBaseline = "middle";
+
+  let x = gap;
+  loaded.forEach(({ label, img }, i) => {
+    ctx.drawImage(img, x, gap, widths[i], frameHeight);
+    ctx.fillText(label.toUpperCase(), x + widths[i] / 2, gap + frameHeight + captionHeight / 2);
+    x += widths[i] + gap;
+  });
+
+  return canvas.toDataURL("image/jpeg", 0.9);
+};
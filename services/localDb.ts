@@ -0,0 +1,45 @@
+/**
+ * The app's IndexedDB database, shared by the session and patient stores.
+ * Bump DB_VERSION and extend `upgrade` when adding a store.
+ */
+
+const DB_NAME = 'homenz-hair-restore';
+const DB_VERSION = 2;
+
+export const SESSIONS = 'sessions';
+export const SUMMARIES = 'summaries';
+export const PATIENTS = 'patients';
+
+const upgrade = (db: IDBDatabase) => {
+  for (const store of [SESSIONS, SUMMARIES, PATIENTS]) {
+    if (!db.objectStoreNames.contains(store)) db.createObjectStore(store, { keyPath: 'id' });
+  }
+};
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+export const openDb = (): Promise<IDBDatabase> => {
+  dbPromise ??= new Promise((resolve, reject) => {
+    const req = indexedDB.open(DB_NAME, DB_VERSION);
+    req.onupgradeneeded = () => upgrade(req.result);
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => {
+      dbPromise = null;
+      reject(req.error);
+    };
+  });
+  return dbPromise;
+};
+
+export const requestResult = <T>(req: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+
+export const transactionDone = (tx: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
@@ -0,0 +1,46 @@
+import { describe, expect, it } from 'vitest';
+import { estimateGrafts, formatArea, formatGrafts, maskAreaCm2, pixelsPerCm } from './measurement';
+import type { Calibration } from '../types';
+
+// 27 mm coin spanning 54 px: 20 px per cm
+const coin: Calibration = {
+  kind: 'reference',
+  points: [{ x: 10, y: 10 }, { x: 10, y: 64 }],
+  lengthMm: 27,
+};
+
+describe('pixelsPerCm', () => {
+  it('divides the segment length by its real length', () => {
+    expect(pixelsPerCm(coin)).toBeCloseTo(20);
+    expect(pixelsPerCm({ ...coin, points: [{ x: 0, y: 0 }, { x: 30, y: 40 }], lengthMm: 10 })).toBeCloseTo(50);
+  });
+});
+
+describe('maskAreaCm2', () => {
+  it('converts painted pixels to cm²', () => {
+    expect(maskAreaCm2(400, coin)).toBeCloseTo(1);
+    expect(maskAreaCm2(10_000, coin)).toBeCloseTo(25);
+  });
+
+  it('is null without a usable calibration', () => {
+    expect(maskAreaCm2(400, null)).toBeNull();
+    expect(maskAreaCm2(400, undefined)).toBeNull();
+    expect(maskAreaCm2(400, { ...coin, lengthMm: 0 })).toBeNull();
+    expect(maskAreaCm2(400, { ...coin, points: [{ x: 5, y: 5 }, { x: 5, y: 5 }] })).toBeNull();
+  });
+});
+
+describe('estimateGrafts', () => {
+  it('multiplies the area by the density range, rounded', () => {
+    expect(estimateGrafts(25, { min: 30, max: 45 })).toEqual({ min: 750, max: 1125 });
+    expect(estimateGrafts(1.25, { min: 15, max: 25 })).toEqual({ min: 19, max: 31 });
+  });
+});
+
+describe('formatting', () => {
+  it('uses the Brazilian number format', () => {
+    expect(formatArea(25)).toBe('25,0 cm²');
+    expect(formatArea(3.14159)).toBe('3,1 cm²');
+    expect(formatGrafts({ min: 750, max: 1125 })).toBe('750–1.125 UF');
+  });
+});
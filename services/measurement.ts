@@ -0,0 +1,57 @@
+/**
+ * Treated-area measurement and graft estimate.
+ *
+ * A calibration is a segment of known real length clicked on the photo (a
+ * coin, a ruler, or the interpupillary distance on the frontal view). It
+ * gives the photo's scale, which turns the painted mask pixels into cm².
+ */
+
+import type { Calibration, CalibrationKind, DensityRange, Procedure } from '../types';
+
+export interface CalibrationPreset {
+  id: string;
+  label: string;
+  kind: CalibrationKind;
+  lengthMm: number;
+}
+
+export const CALIBRATION_PRESETS: CalibrationPreset[] = [
+  { id: 'coin-100', label: 'Moeda R$ 1 (27 mm)', kind: 'reference', lengthMm: 27 },
+  { id: 'coin-50', label: 'Moeda R$ 0,50 (23 mm)', kind: 'reference', lengthMm: 23 },
+  { id: 'coin-25', label: 'Moeda R$ 0,25 (25 mm)', kind: 'reference', lengthMm: 25 },
+  { id: 'ruler-10', label: 'Regua 1 cm', kind: 'reference', lengthMm: 10 },
+  { id: 'ruler-50', label: 'Regua 5 cm', kind: 'reference', lengthMm: 50 },
+  // Adult average; editable since it ranges roughly from 54 to 74 mm
+  { id: 'ipd', label: 'Distancia entre pupilas (63 mm)', kind: 'ipd', lengthMm: 63 },
+];
+
+/** Follicular units per cm² used for the estimate unless the user changes it */
+export const DEFAULT_DENSITY_RANGE: DensityRange = { min: 30, max: 45 };
+
+/** Starting range when the consultant switches procedure */
+export const PROCEDURE_DENSITY_RANGES: Record<Procedure, DensityRange> = {
+  scalp: DEFAULT_DENSITY_RANGE,
+  beard: { min: 25, max: 40 },
+  eyebrow: { min: 15, max: 25 },
+};
+
+export const pixelsPerCm = ({ points: [a, b], lengthMm }: Calibration): number =>
+  Math.hypot(a.x - b.x, a.y - b.y) / (lengthMm / 10);
+
+/** Area in cm² of `maskPixels` painted pixels, or null without a usable calibration */
+export const maskAreaCm2 = (maskPixels: number, calibration: Calibration | null | undefined): number | null => {
+  if (!calibration || calibration.lengthMm <= 0) return null;
+  const scale = pixelsPerCm(calibration);
+  return scale > 0 ? maskPixels / (scale * scale) : null;
+};
+
+export const estimateGrafts = (areaCm2: number, density: DensityRange) => ({
+  min: Math.round(areaCm2 * density.min),
+  max: Math.round(areaCm2 * density.max),
+});
+
+export const formatArea = (areaCm2: number) =>
+  `${areaCm2.toLocaleString('pt-BR', { minimumFractionDigits: 1, maximumFractionDigits: 1 })} cm²`;
+
+export const formatGrafts = ({ min, max }: { min: number; max: number }) =>
+  `${min.toLocaleString('pt-BR')}–${max.toLocaleString('pt-BR')} UF`;
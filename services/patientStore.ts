@@ -0,0 +1,46 @@
+/**
+ * Local patient records (IndexedDB). A patient's consultations are the
+ * sessions saved with their `patientId` (see sessionStore).
+ */
+
+import { openDb, PATIENTS, requestResult, transactionDone } from './localDb';
+import { deleteSessions, listSessions } from './sessionStore';
+import type { NorwoodGrade, Patient } from '../types';
+
+export const NORWOOD_GRADES: NorwoodGrade[] = [
+  'I', 'II', 'IIa', 'III', 'IIIa', 'III vertex', 'IV', 'IVa', 'V', 'Va', 'VI', 'VII',
+];
+
+export const createPatientId = () => `patient-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+
+export const savePatient = async (patient: Patient): Promise<void> => {
+  const db = await openDb();
+  const tx = db.transaction(PATIENTS, 'readwrite');
+  tx.objectStore(PATIENTS).put(patient);
+  await transactionDone(tx);
+};
+
+/** Alphabetical by name */
+export const listPatients = async (): Promise<Patient[]> => {
+  const db = await openDb();
+  const patients = await requestResult(db.transaction(PATIENTS).objectStore(PATIENTS).getAll());
+  return (patients as Patient[]).sort((a, b) => a.name.localeCompare(b.name, 'pt-BR'));
+};
+
+/** Delete the patient together with all of their sessions */
+export const deletePatient = async (id: string): Promise<void> => {
+  const sessions = await listSessions();
+  await deleteSessions(sessions.filter((s) => s.patientId === id).map((s) => s.id));
+  const db = await openDb();
+  const tx = db.transaction(PATIENTS, 'readwrite');
+  tx.objectStore(PATIENTS).delete(id);
+  await transactionDone(tx);
+};
+
+/** Case- and accent-insensitive match on name, contact and notes */
+export const matchesPatient = (patient: Patient, query: string): boolean => {
+  const normalize = (text: string) => text.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase();
+  const q = normalize(query.trim());
+  if (!q) return true;
+  return [patient.name, patient.contact, patient.notes].some((field) => normalize(field).includes(q));
+};
@@ -0,0 +1,148 @@
+/**
+ * Photo ingestion: every uploaded or captured photo passes through here
+ * once, before it reaches the canvas, the quality checks or storage.
+ *
+ * - HEIC/HEIF (iPhone) is decoded with heic2any, loaded on demand.
+ * - EXIF orientation is applied to the pixels.
+ * - The photo is re-encoded as JPEG, which drops all metadata (EXIF, GPS).
+ * - Anything larger than the working resolution is downsized.
+ *
+ * The result is a Blob: sessions keep it as-is in IndexedDB and the UI shows
+ * it through an object URL, instead of carrying multi-megabyte base64 strings.
+ */
+
+import { loadImage } from "./imageUtils";
+
+/** Longest side kept after ingestion; generation uses at most 1536 */
+export const WORKING_MAX_SIDE = 2048;
+
+const JPEG_QUALITY = 0.92;
+
+/** EXIF lives in the first APP1 segment, within the first 64 KB */
+const HEADER_BYTES = 128 * 1024;
+
+// ---------------------------------------------------------------------------
+// HEIC
+// ---------------------------------------------------------------------------
+
+const HEIC_BRANDS = ["heic", "heix", "hevc", "hevx", "heim", "heis", "mif1", "msf1"];
+
+/** By MIME type or extension, falling back to the ISO-BMFF brand */
+const isHeic = async (file: Blob): Promise<boolean> => {
+  if (/^image\/hei[cf]/.test(file.type)) return true;
+  if (file instanceof File && /\.hei[cf]$/i.test(file.name)) return true;
+  const head = new Uint8Array(await file.slice(4, 12).arrayBuffer());
+  const box = String.fromCharCode(...head);
+  return box.startsWith("ftyp") && HEIC_BRANDS.includes(box.slice(4));
+};
+
+const decodeHeic = async (file: Blob): Promise<Blob> => {
+  const { default: heic2any } = await import("heic2any");
+  const converted = await heic2any({ blob: file, toType: "image/jpeg", quality: JPEG_QUALITY });
+  return Array.isArray(converted) ? converted[0] : converted;
+};
+
+// ---------------------------------------------------------------------------
+// Orientation
+// ---------------------------------------------------------------------------
+
+/**
+ * EXIF orientation (1–8) of a JPEG, or 1 when absent or not a JPEG.
+ * Only walks the APP1 segment; the rest of the file is never parsed.
+ */
+export const readExifOrientation = (buffer: ArrayBuffer): number => {
+  const view = new DataView(buffer);
+  if (view.byteLength < 4 || view.getUint16(0) !== 0xffd8) return 1;
+
+  let offset = 2;
+  while (offset + 4 <= view.byteLength) {
+    const marker = view.getUint16(offset);
+    const size = view.getUint16(offset + 2);
+    // Start of scan: no metadata after this point
+    if (marker === 0xffda) return 1;
+    if (marker === 0xffe1 && offset + 10 <= view.byteLength && view.getUint32(offset + 4) === 0x45786966) {
+      const tiff = offset + 10;
+      const little = view.getUint16(tiff) === 0x4949;
+      const firstIfd = tiff + view.getUint32(tiff + 4, little);
+      if (firstIfd + 2 > view.byteLength) return 1;
+      const entries = view.getUint16(firstIfd, little);
+      for (let i = 0; i < entries; i++) {
+        const entry = firstIfd + 2 + i * 12;
+        if (entry + 12 > view.byteLength) return 1;
+        if (view.getUint16(entry, little) === 0x0112) {
+          const value = view.getUint16(entry + 8, little);
+          return value >= 1 && value <= 8 ? value : 1;
+        }
+      }
+      return 1;
+    }
+    offset += 2 + size;
+  }
+  return 1;
+};
+
+/** Browsers that apply EXIF rotation when decoding (all current ones) */
+const decodesUpright = () =>
+  typeof CSS !== "undefined" && CSS.supports?.("image-orientation", "from-image");
+
+/** Canvas transform mapping stored pixels (w x h) to upright, per orientation */
+const orientationTransform = (
+  orientation: number,
+  w: number,
+  h: number
+): [number, number, number, number, number, number] => {
+  switch (orientation) {
+    case 2: return [-1, 0, 0, 1, w, 0];
+    case 3: return [-1, 0, 0, -1, w, h];
+    case 4: return [1, 0, 0, -1, 0, h];
+    case 5: return [0, 1, 1, 0, 0, 0];
+    case 6: return [0, 1, -1, 0, h, 0];
+    case 7: return [0, -1, -1, 0, h, w];
+    case 8: return [0, -1, 1, 0, 0, w];
+    default: return [1, 0, 0, 1, 0, 0];
+  }
+};
+
+// ---------------------------------------------------------------------------
+// Public API
+// ---------------------------------------------------------------------------
+
+export const dataUrlToBlob = async (dataUrl: string): Promise<Blob> => (await fetch(dataUrl)).blob();
+
+/**
+ * Decode, orient, strip and downsize one photo. Always re-encodes, so the
+ * output never carries the original's metadata.
+ */
+export const ingestPhoto = async (file: Blob): Promise<Blob> => {
+  const source = (await isHeic(file)) ? await decodeHeic(file) : file;
+  const orientation = readExifOrientation(await source.slice(0, HEADER_BYTES).arrayBuffer());
+
+  const url = URL.createObjectURL(source);
+  try {
+    const img = await loadImage(url);
+    // Upright size: the decoder may or may not have rotated already
+    const manual = orientation > 1 && !decodesUpright();
+    const swap = manual && orientation >= 5;
+    const uprightW = swap ? img.naturalHeight : img.naturalWidth;
+    const uprightH = swap ? img.naturalWidth : img.naturalHeight;
+
+    const ratio = Math.min(1, WORKING_MAX_SIDE / Math.max(uprightW, uprightH));
+    const canvas = document.createElement("canvas");
+    canvas.width = Math.round(uprightW * ratio);
+    canvas.height = Math.round(uprightH * ratio);
+    const ctx = canvas.getContext("2d")!;
+    ctx.scale(ratio, ratio);
+    if (manual) ctx.transform(...orientationTransform(orientation, img.naturalWidth, img.naturalHeight));
+    ctx.drawImage(img, 0, 0);
+
+    return await new Promise<Blob>((resolve, reject) =>
+      canvas.toBlob(
+        (blob) => (blob ? resolve(blob) : reject(new Error("Falha ao codificar foto"))),
+        "image/jpeg",
+        JPEG_QUALITY
+      )
+    );
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+};
@@ -0,0 +1,137 @@
+/**
+ * Local checks on uploaded photos, run before the draw step so a bad photo
+ * is caught in seconds instead of after a slow generation.
+ *
+ * Resolution, blur (variance of the Laplacian) and exposure produce
+ * warnings; only a photo under the hard minimum resolution blocks.
+ * Orientation is already fixed on ingestion (see ./photoIngest).
+ */
+
+import { loadImage } from "./imageUtils";
+
+// ---------------------------------------------------------------------------
+// Configuration
+// ---------------------------------------------------------------------------
+
+const readPositiveInt = (value: string | undefined, fallback: number): number => {
+  const parsed = Number.parseInt(value || "", 10);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : fallback;
+};
+
+/** Shorter side (px) below which a photo cannot be used */
+export const PHOTO_MIN_SIDE = readPositiveInt(process.env.PHOTO_MIN_SIDE, 480);
+
+/** Shorter side (px) below which detail starts to suffer */
+const RECOMMENDED_MIN_SIDE = 1024;
+
+/** Laplacian variance under this reads as out of focus or shaken */
+const BLUR_THRESHOLD = 80;
+
+/** Mean luma (0–255) limits, and the share of clipped pixels tolerated */
+const DARK_MEAN = 60;
+const BRIGHT_MEAN = 200;
+const CLIPPED_SHARE = 0.25;
+
+/** Analysis runs on a downscaled copy; enough for focus and exposure */
+const ANALYSIS_MAX_SIDE = 768;
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export type PhotoIssueKind = "resolution" | "blur" | "dark" | "bright";
+
+export interface PhotoIssue {
+  kind: PhotoIssueKind;
+  message: string;
+  /** Blocks the draw step until the photo is replaced */
+  blocking: boolean;
+}
+
+export interface PhotoQualityReport {
+  width: number;
+  height: number;
+  /** Variance of the Laplacian on the analysis copy */
+  sharpness: number;
+  /** Mean luma, 0–255 */
+  brightness: number;
+  issues: PhotoIssue[];
+}
+
+export const isPhotoBlocked = (report: PhotoQualityReport | null | undefined) =>
+  !!report?.issues.some((issue) => issue.blocking);
+
+// ---------------------------------------------------------------------------
+// Quality
+// ---------------------------------------------------------------------------
+
+export const assessPhotoQuality = async (src: string): Promise<PhotoQualityReport> => {
+  const img = await loadImage(src);
+  const width = img.naturalWidth;
+  const height = img.naturalHeight;
+
+  const ratio = Math.min(1, ANALYSIS_MAX_SIDE / Math.max(width, height));
+  const w = Math.max(3, Math.round(width * ratio));
+  const h = Math.max(3, Math.round(height * ratio));
+  const canvas = document.createElement("canvas");
+  canvas.width = w;
+  canvas.height = h;
+  const ctx = canvas.getContext("2d")!;
+  ctx.drawImage(img, 0, 0, w, h);
+  const data = ctx.getImageData(0, 0, w, h).data;
+
+  const gray = new Float32Array(w * h);
+  let lumaSum = 0;
+  let dark = 0;
+  let bright = 0;
+  for (let i = 0; i < gray.length; i++) {
+    const luma = 0.299 * data[i * 4] + 0.587 * data[i * 4 + 1] + 0.114 * data[i * 4 + 2];
+    gray[i] = luma;
+    lumaSum += luma;
+    if (luma < 16) dark++;
+    else if (luma > 245) bright++;
+  }
+  const brightness = lumaSum / gray.length;
+
+  // 4-neighbour Laplacian over the interior
+  let sum = 0;
+  let sumSq = 0;
+  let count = 0;
+  for (let y = 1; y < h - 1; y++) {
+    for (let x = 1; x < w - 1; x++) {
+      const i = y * w + x;
+      const lap = gray[i - w] + gray[i + w] + gray[i - 1] + gray[i + 1] - 4 * gray[i];
+      sum += lap;
+      sumSq += lap * lap;
+      count++;
+    }
+  }
+  const mean = sum / count;
+  const sharpness = sumSq / count - mean * mean;
+
+  const issues: PhotoIssue[] = [];
+  const shortSide = Math.min(width, height);
+  if (shortSide < PHOTO_MIN_SIDE) {
+    issues.push({
+      kind: "resolution",
+      message: `Resolucao muito baixa (${width}×${height}). Minimo: ${PHOTO_MIN_SIDE}px no menor lado.`,
+      blocking: true,
+    });
+  } else if (shortSide < RECOMMENDED_MIN_SIDE) {
+    issues.push({
+      kind: "resolution",
+      message: `Resolucao baixa (${width}×${height}); detalhes podem se perder.`,
+      blocking: false,
+    });
+  }
+  if (sharpness < BLUR_THRESHOLD) {
+    issues.push({ kind: "blur", message: "Foto possivelmente desfocada ou tremida.", blocking: false });
+  }
+  if (brightness < DARK_MEAN || dark / gray.length > CLIPPED_SHARE) {
+    issues.push({ kind: "dark", message: "Foto escura; use mais luz.", blocking: false });
+  } else if (brightness > BRIGHT_MEAN || bright / gray.length > CLIPPED_SHARE) {
+    issues.push({ kind: "bright", message: "Foto estourada; reduza a luz direta.", blocking: false });
+  }
+
+  return { width, height, sharpness, brightness, issues };
+};
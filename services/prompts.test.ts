@@ -0,0 +1,64 @@
+import { describe, expect, it } from 'vitest';
+import { buildPrompt, DENSITY_LEVEL_FU, PROMPTS } from './prompts';
+
+const rule = (prompt: string, n: number) => prompt.match(new RegExp(`^${n}\\. .*$`, 'm'))?.[0] ?? '';
+
+describe('buildPrompt density levels', () => {
+  it('sends the prompt unchanged at full density', () => {
+    expect(buildPrompt('frontal')).toBe(PROMPTS.frontal);
+    expect(buildPrompt('frontal', { density: 'full' })).toBe(PROMPTS.frontal);
+  });
+
+  it.each(['conservative', 'moderate'] as const)('rewrites rules 1 and 2 at %s density', (density) => {
+    for (const angle of ['frontal', 'top', 'left', 'right'] as const) {
+      const prompt = buildPrompt(angle, { density });
+      expect(rule(prompt, 1)).toContain(`${density.toUpperCase()} DENSITY`);
+      expect(rule(prompt, 1)).toContain(`about ${DENSITY_LEVEL_FU.scalp[density]} follicular units`);
+      expect(rule(prompt, 2)).toMatch(/^2\. PRESERVE BOUNDARIES: .*not how dense it is/);
+      expect(prompt).not.toMatch(/100% of the black painted area|Absolutely NO|MAXIMIZE|EXTREME DENSITY/);
+      expect(rule(prompt, 3)).toBe(rule(PROMPTS[angle], 3));
+    }
+  });
+
+  it('keeps a growth-pattern rule 2 and uses the procedure density', () => {
+    const prompt = buildPrompt('beard_front', { density: 'moderate' });
+    expect(rule(prompt, 1)).toContain(`about ${DENSITY_LEVEL_FU.beard.moderate} follicular units`);
+    expect(rule(prompt, 2)).toBe(rule(PROMPTS.beard_front, 2));
+    expect(rule(buildPrompt('crown', { density: 'moderate' }), 2)).toBe(rule(PROMPTS.crown, 2));
+  });
+});
+
+describe('buildPrompt growth stages', () => {
+  it.each([3, 6, 12] as const)('describes the %i-month stage in rules 1 and 2 and the stage section', (stage) => {
+    const prompt = buildPrompt('frontal', { stage });
+    expect(rule(prompt, 1)).toMatch(new RegExp(`^1\\. ${stage} MONTHS AFTER THE TRANSPLANT`));
+    expect(rule(prompt, 2)).toMatch(/^2\. PRESERVE BOUNDARIES: .*do NOT fill the shape/);
+    expect(prompt).toContain(`TIMELINE STAGE: This image shows the patient ${stage} months after the procedure`);
+    expect(prompt).not.toMatch(/100% of the black painted area|Absolutely NO/);
+  });
+
+  it('lets the stage decide the density', () => {
+    const prompt = buildPrompt('top', { stage: 6, density: 'conservative' });
+    expect(rule(prompt, 1)).toMatch(/^1\. 6 MONTHS/);
+    expect(prompt).not.toContain('CONSERVATIVE DENSITY');
+  });
+
+  it('treats 18 months as the final result', () => {
+    expect(buildPrompt('frontal', { stage: 18 })).toBe(PROMPTS.frontal);
+    expect(buildPrompt('top', { stage: 18, density: 'moderate' })).toBe(buildPrompt('top', { density: 'moderate' }));
+  });
+});
+
+describe('buildPrompt reference case', () => {
+  it.each(Object.keys(PROMPTS) as (keyof typeof PROMPTS)[])('announces three images for %s', (angle) => {
+    const prompt = buildPrompt(angle, { reference: true });
+    expect(prompt).toMatch(/^I am providing THREE images\. Images 1 and 2 are of /);
+    expect(prompt).not.toContain('TWO images');
+    expect(prompt).toMatch(/^Image 2: .*\nImage 3: A reference case from a DIFFERENT patient/m);
+    expect(prompt).toContain('REFERENCE EXAMPLE: Image 3');
+  });
+
+  it('keeps two images without a reference', () => {
+    expect(buildPrompt('top', { reference: false })).toBe(PROMPTS.top);
+  });
+});
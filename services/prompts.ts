@@ -0,0 +1,393 @@
+/**
+ * Simulation prompts, shared by the browser and the api/simulate function.
+ * Keep this file free of DOM and Node-only imports.
+ */
+
+import type { DensityLevel, GrowthStage, HairProfile, HairTexture, Procedure, SimulationAngle } from "../types";
+
+// ---------------------------------------------------------------------------
+// Procedures
+// ---------------------------------------------------------------------------
+
+export const PROCEDURES: Procedure[] = ["scalp", "beard", "eyebrow"];
+
+export const DEFAULT_PROCEDURE: Procedure = "scalp";
+
+/** Angles photographed for each procedure, in wizard order */
+export const PROCEDURE_ANGLES: Record<Procedure, SimulationAngle[]> = {
+  scalp: ["frontal", "top", "left", "right", "crown"],
+  beard: ["beard_front", "beard_left", "beard_right"],
+  eyebrow: ["brow_front", "brow_left", "brow_right"],
+};
+
+export const SIMULATION_ANGLES: SimulationAngle[] = PROCEDURES.flatMap((p) => PROCEDURE_ANGLES[p]);
+
+export const procedureOf = (angle: SimulationAngle): Procedure =>
+  PROCEDURES.find((p) => PROCEDURE_ANGLES[p].includes(angle)) ?? DEFAULT_PROCEDURE;
+
+export const isProcedure = (value: unknown): value is Procedure =>
+  typeof value === "string" && (PROCEDURES as string[]).includes(value);
+
+// ---------------------------------------------------------------------------
+// Density levels
+// ---------------------------------------------------------------------------
+
+export const DENSITY_LEVELS: DensityLevel[] = ["conservative", "moderate", "full"];
+
+export const DEFAULT_DENSITY_LEVEL: DensityLevel = "full";
+
+/** Follicular units per cm² each level stands for, per procedure */
+export const DENSITY_LEVEL_FU: Record<Procedure, Record<DensityLevel, number>> = {
+  scalp: { conservative: 30, moderate: 45, full: 60 },
+  beard: { conservative: 25, moderate: 35, full: 45 },
+  eyebrow: { conservative: 15, moderate: 22, full: 30 },
+};
+
+export const isDensityLevel = (value: unknown): value is DensityLevel =>
+  typeof value === "string" && (DENSITY_LEVELS as string[]).includes(value);
+
+// ---------------------------------------------------------------------------
+// Growth timeline
+// ---------------------------------------------------------------------------
+
+export const GROWTH_STAGES: GrowthStage[] = [3, 6, 12, 18];
+
+export const FINAL_GROWTH_STAGE = 18 satisfies GrowthStage;
+
+/** Share of the final growth visible at each stage (drives the pre-fill) */
+export const GROWTH_STAGE_FRACTION: Record<GrowthStage, number> = {
+  3: 0.1,
+  6: 0.4,
+  12: 0.75,
+  18: 1,
+};
+
+export const isGrowthStage = (value: unknown): value is GrowthStage =>
+  typeof value === "number" && (GROWTH_STAGES as number[]).includes(value);
+
+// ---------------------------------------------------------------------------
+// Prompts — two-image approach (original + annotated)
+// ---------------------------------------------------------------------------
+
+export const PROMPTS: Record<SimulationAngle, string> = {
+  frontal: `I am providing TWO images of the same person.
+Image 1: The patient's photo. Notice the solid black/dark brown shape painted onto the forehead/scalp. THIS IS A DIGITAL HAIRPIECE.
+Image 2: The same photo with a RED MASK highlighting this exact digital hairpiece.
+
+YOUR TASK: Texturize the flat black hairpiece in Image 1 into photorealistic, natural hair.
+
+CRITICAL RULES:
+1. MAXIMIZE DENSITY: The black shape is already hair. Your job is only to add texture, lighting, and strands to it.
+2. DO NOT SHRINK THE HAIRLINE: You MUST transform 100% of the black painted area into dense hair. Absolutely NO forehead skin should replace the black area. If the black shape is low on the forehead, the hair MUST be low on the forehead.
+3. PHOTOREALISM: Make the generated hair perfectly match the patient's existing hair color and lighting. Blend the edges seamlessly into the existing hair.
+
+Output ONLY one photorealistic photo based on Image 1 with the hair added. No text. No labels. No split view.`,
+
+  top: `I am providing TWO images of the patient's scalp.
+Image 1: The crown/scalp photo. Notice the solid black/dark brown shape painted onto the scalp. THIS IS A DIGITAL HAIRPIECE.
+Image 2: The same photo with a RED MASK highlighting this exact digital hairpiece.
+
+YOUR TASK: Texturize the flat black hairpiece in Image 1 into photorealistic, natural hair.
+
+CRITICAL RULES:
+1. EXTREME DENSITY: The black shape is already hair. Your job is only to add texture, whorls, and strands to it. Absolutely NO SCALP skin should be visible beneath it.
+2. PRESERVE BOUNDARIES: You MUST transform 100% of the black painted area into thick hair. Do not shrink the coverage area. Map exactly to the black shape boundaries.
+3. PHOTOREALISM: Match the natural existing hair color and crown growth pattern (whorl). Keep the unmasked areas 100% identical to Image 1.
+
+Output ONLY one photorealistic photo based on Image 1 with the hair added. No text. No labels. No split view.`,
+
+  left: `I am providing TWO images of the same person seen from their LEFT side (profile).
+Image 1: The patient's photo. Notice the solid black/dark brown shape painted onto the temple/scalp. THIS IS A DIGITAL HAIRPIECE.
+Image 2: The same photo with a RED MASK highlighting this exact digital hairpiece.
+
+YOUR TASK: Texturize the flat black hairpiece in Image 1 into photorealistic, natural hair.
+
+CRITICAL RULES:
+1. FILL THE TEMPLE TRIANGLE: The black shape is already hair. Transform 100% of it into dense hair — zero bare skin between the new hairline and the ear inside the painted area.
+2. PRESERVE BOUNDARIES: The hairline must sit exactly where the black shape starts. Do not move it back and do not extend hair outside the black shape.
+3. KEEP THE PERSON: Keep the EXACT same hair color as the existing hair — do not darken it. Do not change the beard, sideburn, ear, face or skin. Hair direction on the side of the head flows down and back toward the ear.
+
+Output ONLY one photorealistic photo based on Image 1 with the hair added. No text. No labels. No split view.`,
+
+  right: `I am providing TWO images of the same person seen from their RIGHT side (profile).
+Image 1: The patient's photo. Notice the solid black/dark brown shape painted onto the temple/scalp. THIS IS A DIGITAL HAIRPIECE.
+Image 2: The same photo with a RED MASK highlighting this exact digital hairpiece.
+
+YOUR TASK: Texturize the flat black hairpiece in Image 1 into photorealistic, natural hair. This area is currently bare — the change must be clearly visible.
+
+CRITICAL RULES:
+1. FILL THE TEMPLE TRIANGLE: The black shape is already hair. Transform 100% of it into dense hair — zero bare skin between the new hairline and the ear inside the painted area.
+2. PRESERVE BOUNDARIES: The hairline must sit exactly where the black shape starts. Do not move it back and do not extend hair outside the black shape.
+3. KEEP THE PERSON: Keep the EXACT same hair color as the existing hair — do not darken it. Do not change the beard, sideburn, ear, face or skin. Hair direction on the side of the head flows down and back toward the ear.
+
+Output ONLY one photorealistic photo based on Image 1 with the hair added. No text. No labels. No split view.`,
+
+  crown: `I am providing TWO images of the back of the patient's head (posterior crown/vertex).
+Image 1: The crown photo. Notice the solid black/dark brown shape painted onto the thinning crown. THIS IS A DIGITAL HAIRPIECE.
+Image 2: The same photo with a RED MASK highlighting this exact digital hairpiece.
+
+YOUR TASK: Texturize the flat black hairpiece in Image 1 into photorealistic, natural hair.
+
+CRITICAL RULES:
+1. FULL COVERAGE: The black shape is already hair. Transform 100% of it into dense hair with NO scalp showing through.
+2. NATURAL WHORL: Hair on the crown radiates from a single whorl (cowlick). Keep the existing whorl position and make the new hair follow that spiral pattern.
+3. SEAMLESS BLEND: Match the existing hair color, length and lighting exactly and blend the edges into the surrounding hair. Keep the neck, ears and unmasked areas 100% identical to Image 1.
+
+Output ONLY one photorealistic photo based on Image 1 with the hair added. No text. No labels. No split view.`,
+
+  beard_front: `I am providing TWO images of the same man, face seen from the front.
+Image 1: The patient's photo. Notice the dark stippled shading painted onto the beard area (cheeks, mustache, chin or jaw). IT MARKS WHERE BEARD HAIR MUST GROW.
+Image 2: The same photo with a RED MASK highlighting exactly that area.
+
+YOUR TASK: Turn the shaded area in Image 1 into a photorealistic, natural beard that fills the patchy gaps.
+
+CRITICAL RULES:
+1. FILL THE GAPS: Transform 100% of the shaded area into beard hair at the same density as the patient's fullest existing beard. No bare patches may remain inside the marked area.
+2. BEARD GROWTH PATTERN: Beard hair is short and coarse and follows the face: downward on the cheeks and jaw, downward and outward from the center on the mustache, downward on the chin. Match the length of the existing beard (stubble stays stubble) and keep both sides symmetrical.
+3. KEEP THE PERSON: Match the existing beard color exactly, including gray hairs. Do not change the lips, nose, eyes, skin, scalp hair or anything outside the red mask.
+
+Output ONLY one photorealistic photo based on Image 1 with the beard added. No text. No labels. No split view.`,
+
+  beard_left: `I am providing TWO images of the same man seen from his LEFT side (three-quarter view).
+Image 1: The patient's photo. Notice the dark stippled shading painted onto the cheek, jaw or sideburn. IT MARKS WHERE BEARD HAIR MUST GROW.
+Image 2: The same photo with a RED MASK highlighting exactly that area.
+
+YOUR TASK: Turn the shaded area in Image 1 into a photorealistic, natural beard that fills the patchy gaps.
+
+CRITICAL RULES:
+1. FILL THE GAPS: Transform 100% of the shaded area into beard hair at the same density as the patient's fullest existing beard. No bare patches may remain inside the marked area.
+2. BEARD GROWTH PATTERN: On the cheek and jaw line beard hair flows downward and slightly back toward the neck. Where the mask bridges the sideburn and the beard, connect them. Match the length of the existing beard (stubble stays stubble).
+3. KEEP THE PERSON: Match the existing beard color exactly, including gray hairs. Do not change the ear, lips, skin, scalp hair or anything outside the red mask.
+
+Output ONLY one photorealistic photo based on Image 1 with the beard added. No text. No labels. No split view.`,
+
+  beard_right: `I am providing TWO images of the same man seen from his RIGHT side (three-quarter view).
+Image 1: The patient's photo. Notice the dark stippled shading painted onto the cheek, jaw or sideburn. IT MARKS WHERE BEARD HAIR MUST GROW.
+Image 2: The same photo with a RED MASK highlighting exactly that area.
+
+YOUR TASK: Turn the shaded area in Image 1 into a photorealistic, natural beard that fills the patchy gaps.
+
+CRITICAL RULES:
+1. FILL THE GAPS: Transform 100% of the shaded area into beard hair at the same density as the patient's fullest existing beard. No bare patches may remain inside the marked area.
+2. BEARD GROWTH PATTERN: On the cheek and jaw line beard hair flows downward and slightly back toward the neck. Where the mask bridges the sideburn and the beard, connect them. Match the length of the existing beard (stubble stays stubble).
+3. KEEP THE PERSON: Match the existing beard color exactly, including gray hairs. Do not change the ear, lips, skin, scalp hair or anything outside the red mask.
+
+Output ONLY one photorealistic photo based on Image 1 with the beard added. No text. No labels. No split view.`,
+
+  brow_front: `I am providing TWO images of the same person: a close-up of both eyebrows seen from the front.
+Image 1: The patient's photo.
+Image 2: The same photo with a RED MASK marking where eyebrow hair must be added (gaps, thin tails or the whole brow shape).
+
+YOUR TASK: Add photorealistic, natural eyebrow hair to Image 1 exactly inside the red marked area.
+
+CRITICAL RULES:
+1. NATURAL BROW DENSITY: Fill 100% of the marked area with fine, individual eyebrow hairs, as dense as the patient's fullest existing brow section, with skin faintly visible between hairs as in a natural brow. Not a painted block, not a tattoo.
+2. EYEBROW GROWTH PATTERN: Hairs are short and fine and lie close to the skin. At the inner end (head) they point upward; along the body they point outward and slightly upward toward the temple; at the tail they point outward and downward. Keep both brows symmetrical in shape and density.
+3. KEEP THE PERSON: Match the existing brow color exactly. Do not change the eyes, eyelids, lashes, forehead, skin or anything outside the red mask.
+
+Output ONLY one photorealistic photo based on Image 1 with the eyebrow hair added. No text. No labels. No split view.`,
+
+  brow_left: `I am providing TWO images of the same person: a close-up of the LEFT eyebrow in three-quarter view.
+Image 1: The patient's photo.
+Image 2: The same photo with a RED MASK marking where eyebrow hair must be added (gaps, a thin tail or the whole brow shape).
+
+YOUR TASK: Add photorealistic, natural eyebrow hair to Image 1 exactly inside the red marked area.
+
+CRITICAL RULES:
+1. NATURAL BROW DENSITY: Fill 100% of the marked area with fine, individual eyebrow hairs, as dense as the patient's fullest existing brow section, with skin faintly visible between hairs as in a natural brow. Not a painted block, not a tattoo.
+2. EYEBROW GROWTH PATTERN: Hairs are short and fine and lie close to the skin. Along the body they point outward and slightly upward toward the temple; at the tail they point outward and downward. Keep the arch where the existing brow has it.
+3. KEEP THE PERSON: Match the existing brow color exactly. Do not change the eye, eyelid, lashes, forehead, skin or anything outside the red mask.
+
+Output ONLY one photorealistic photo based on Image 1 with the eyebrow hair added. No text. No labels. No split view.`,
+
+  brow_right: `I am providing TWO images of the same person: a close-up of the RIGHT eyebrow in three-quarter view.
+Image 1: The patient's photo.
+Image 2: The same photo with a RED MASK marking where eyebrow hair must be added (gaps, a thin tail or the whole brow shape).
+
+YOUR TASK: Add photorealistic, natural eyebrow hair to Image 1 exactly inside the red marked area.
+
+CRITICAL RULES:
+1. NATURAL BROW DENSITY: Fill 100% of the marked area with fine, individual eyebrow hairs, as dense as the patient's fullest existing brow section, with skin faintly visible between hairs as in a natural brow. Not a painted block, not a tattoo.
+2. EYEBROW GROWTH PATTERN: Hairs are short and fine and lie close to the skin. Along the body they point outward and slightly upward toward the temple; at the tail they point outward and downward. Keep the arch where the existing brow has it.
+3. KEEP THE PERSON: Match the existing brow color exactly. Do not change the eye, eyelid, lashes, forehead, skin or anything outside the red mask.
+
+Output ONLY one photorealistic photo based on Image 1 with the eyebrow hair added. No text. No labels. No split view.`,
+};
+
+export const isSimulationAngle = (value: unknown): value is SimulationAngle =>
+  typeof value === "string" && Object.prototype.hasOwnProperty.call(PROMPTS, value);
+
+// ---------------------------------------------------------------------------
+// Hair colour
+// ---------------------------------------------------------------------------
+
+const HEX_RE = /^#[0-9a-f]{6}$/i;
+const HAIR_TEXTURES: HairTexture[] = ["straight", "wavy", "curly"];
+
+/** Only the fields the prompt uses; the server accepts nothing free-form */
+export type HairPromptInfo = Pick<HairProfile, "palette" | "texture">;
+
+export const isHairPromptInfo = (value: unknown): value is HairPromptInfo => {
+  const v = value as HairPromptInfo | null;
+  return (
+    typeof v === "object" && v !== null &&
+    Array.isArray(v.palette) && v.palette.length >= 1 && v.palette.length <= 5 &&
+    v.palette.every((c) => typeof c === "string" && HEX_RE.test(c)) &&
+    HAIR_TEXTURES.includes(v.texture)
+  );
+};
+
+const hexToHsl = (hex: string) => {
+  const [r, g, b] = [1, 3, 5].map((i) => parseInt(hex.slice(i, i + 2), 16) / 255);
+  const max = Math.max(r, g, b);
+  const min = Math.min(r, g, b);
+  const l = (max + min) / 2;
+  const d = max - min;
+  const s = d === 0 ? 0 : d / (1 - Math.abs(2 * l - 1));
+  let h = 0;
+  if (d !== 0) {
+    if (max === r) h = ((g - b) / d + 6) % 6;
+    else if (max === g) h = (b - r) / d + 2;
+    else h = (r - g) / d + 4;
+  }
+  return { h: h * 60, s, l };
+};
+
+export type HairColorName =
+  | "gray" | "salt_pepper" | "black" | "auburn" | "copper"
+  | "dark_brown" | "medium_brown" | "light_brown" | "dark_blonde" | "blonde";
+
+const HAIR_COLOR_PROMPT: Record<HairColorName, string> = {
+  gray: "gray/white",
+  salt_pepper: "salt-and-pepper gray",
+  black: "black",
+  auburn: "auburn",
+  copper: "copper red",
+  dark_brown: "dark brown",
+  medium_brown: "medium brown",
+  light_brown: "light brown",
+  dark_blonde: "dark blonde",
+  blonde: "blonde",
+};
+
+/** Colour family of the middle palette entry */
+export const classifyHairColor = (palette: string[]): HairColorName => {
+  const { h, s, l } = hexToHsl(palette[Math.floor(palette.length / 2)]);
+  if (s < 0.12 && l > 0.55) return "gray";
+  if (s < 0.12 && l > 0.35) return "salt_pepper";
+  if (l < 0.12) return "black";
+  if ((h < 25 || h > 340) && s > 0.35 && l > 0.2 && l < 0.6) return l < 0.4 ? "auburn" : "copper";
+  if (l < 0.22) return "dark_brown";
+  if (l < 0.35) return "medium_brown";
+  if (l < 0.5) return "light_brown";
+  if (l < 0.65) return "dark_blonde";
+  return "blonde";
+};
+
+const hairSection = ({ palette, texture }: HairPromptInfo) => `
+
+HAIR COLOR AND TEXTURE: The patient's existing hair is ${HAIR_COLOR_PROMPT[classifyHairColor(palette)]} (sampled colors, darkest to lightest: ${palette.join(", ")}) with a ${texture} texture. The new hair MUST use exactly this color range and texture, including the lighter strands. Do NOT darken it and do NOT make it black.`;
+
+/**
+ * PROMPTS describe the near-black pre-fill. With a sampled palette the
+ * pre-fill is painted in the patient's colours, so name that colour instead.
+ */
+const PREFILL_COLOR_RE = /\b(?:black\/dark brown|black|dark)(?= (?:shape|hairpiece|painted area|area|stippled shading)\b)/g;
+
+const describePrefill = (prompt: string, { palette }: HairPromptInfo) =>
+  prompt.replace(PREFILL_COLOR_RE, HAIR_COLOR_PROMPT[classifyHairColor(palette)]);
+
+/**
+ * Replacement for rule 1 of every prompt below full coverage. PROMPTS are
+ * written for full coverage, and their first rule is the one that asks for
+ * maximum density.
+ */
+const DENSITY_RULES: Record<Exclude<DensityLevel, "full">, (fu: number) => string> = {
+  conservative: (fu) => `CONSERVATIVE DENSITY (about ${fu} follicular units per cm²): The marked area shows where hair grows, not how dense it is. Make it a soft, natural fill that is visibly less dense than the patient's native hair. The skin must remain partly visible through the new hair, especially along the edges and under direct light. Do NOT make it look fully dense.`,
+  moderate: (fu) => `MODERATE DENSITY (about ${fu} follicular units per cm²): The marked area shows where hair grows. Make it look like a good single-session transplant: it covers well at normal viewing distance, but the skin can still be faintly seen up close and along the edges. Do not exaggerate the density.`,
+};
+
+/**
+ * Replacement for rule 2 below full coverage, where rule 2 is about the
+ * painted area (the scalp angles ask to fill 100% of it with dense hair).
+ * Rule 2 of the other angles is about growth direction and stays.
+ */
+const DENSITY_BOUNDARY_RULE = `PRESERVE BOUNDARIES: New hair grows only inside the black shape, and the hairline sits exactly where the black shape starts. The black shape marks WHERE hair grows, not how dense it is: rule 1 sets the density, so skin showing through the new hair inside the shape is expected.`;
+
+const BOUNDARY_RULE_RE = /^2\. (?:DO NOT SHRINK THE HAIRLINE|PRESERVE BOUNDARIES): .*$/m;
+
+/** Replacement for rule 1 at the intermediate growth stages */
+const GROWTH_RULES: Record<Exclude<GrowthStage, typeof FINAL_GROWTH_STAGE>, string> = {
+  3: `3 MONTHS AFTER THE TRANSPLANT (shock loss phase): The marked area is the transplanted area, but the new hair has NOT grown yet. Show the area almost bare: skin with at most very short, sparse stubble and faint pinkness, and slightly thinner native hair around it (temporary shock loss). Do NOT show grown hair in the marked area.`,
+  6: `6 MONTHS AFTER THE TRANSPLANT (early growth): The marked area is the transplanted area. Show early, sparse regrowth: fine, short hairs spread over the area with the skin clearly visible between them. It must look clearly unfinished.`,
+  12: `12 MONTHS AFTER THE TRANSPLANT (partial density): The marked area is the transplanted area. Show most of the new hair grown in, at about three quarters of the final density, slightly finer and shorter than the surrounding native hair, with the skin still faintly visible up close.`,
+};
+
+/** Replacement for the coverage rule 2 (see DENSITY_BOUNDARY_RULE) at the intermediate stages */
+const GROWTH_BOUNDARY_RULE = `PRESERVE BOUNDARIES: The black shape marks the transplanted area, where the hair will grow. Keep any new growth inside it and the future hairline where the black shape starts, but do NOT fill the shape: rule 1 sets how much hair is visible at this stage.`;
+
+const growthSection = (stage: GrowthStage) => `
+
+TIMELINE STAGE: This image shows the patient ${stage} months after the procedure, not the final result. This overrides any instruction above about dense or full coverage; only the stage described in rule 1 matters for how much hair is visible.`;
+
+/**
+ * PROMPTS introduce two images; with a reference case attached (Gemini
+ * only) the header announces the third one too.
+ */
+const describeReference = (prompt: string) =>
+  prompt
+    .replace(/^I am providing TWO images of /, "I am providing THREE images. Images 1 and 2 are of ")
+    .replace(
+      /^Image 2: .*$/m,
+      (line) => `${line}\nImage 3: A reference case from a DIFFERENT patient, before and after a transplant (see REFERENCE EXAMPLE below).`
+    );
+
+/** Appended when a reference case travels as a third image (Gemini only) */
+const REFERENCE_SECTION = `
+
+REFERENCE EXAMPLE: Image 3 is a real transplant case photographed from a similar angle, shown side by side: BEFORE on the left half, AFTER on the right half. Use it only as a guide to what a realistic result looks like (an irregular, natural hairline, believable density, new hair blending into native hair). Do NOT copy that person, their hair color or their hairstyle, and do NOT output a side-by-side image: edit only Image 1.`;
+
+/** Appended when a previous attempt answered with text instead of an image */
+const REASK_SUFFIX = `
+
+IMPORTANT: Your previous answer contained only text. Do not describe or discuss the image — respond with the edited IMAGE only.`;
+
+export interface PromptOptions {
+  /** Re-ask after a text-only answer */
+  reask?: boolean;
+  /** Target density (default full coverage) */
+  density?: DensityLevel;
+  /** Sampled hair, described explicitly so the model does not guess */
+  hair?: HairPromptInfo;
+  /** Growth stage in months (default the final result) */
+  stage?: GrowthStage;
+  /** A reference before/after case is attached after the patient's images */
+  reference?: boolean;
+}
+
+/** Final prompt sent to the model for an angle */
+export const buildPrompt = (angle: SimulationAngle, options: PromptOptions = {}): string => {
+  const density = options.density ?? DEFAULT_DENSITY_LEVEL;
+  const stage = options.stage ?? FINAL_GROWTH_STAGE;
+  // An intermediate stage decides the visible density by itself
+  const rule =
+    stage !== FINAL_GROWTH_STAGE
+      ? GROWTH_RULES[stage]
+      : density !== "full"
+        ? DENSITY_RULES[density](DENSITY_LEVEL_FU[procedureOf(angle)][density])
+        : null;
+  const boundaryRule =
+    stage !== FINAL_GROWTH_STAGE ? GROWTH_BOUNDARY_RULE : density !== "full" ? DENSITY_BOUNDARY_RULE : null;
+  let prompt = rule ? PROMPTS[angle].replace(/^1\. .*$/m, `1. ${rule}`) : PROMPTS[angle];
+  if (boundaryRule) prompt = prompt.replace(BOUNDARY_RULE_RE, `2. ${boundaryRule}`);
+  // The pre-fill uses the sampled palette whenever one is sent
+  if (options.hair) prompt = describePrefill(prompt, options.hair);
+  if (options.reference) prompt = describeReference(prompt);
+  return (
+    prompt +
+    (stage !== FINAL_GROWTH_STAGE ? growthSection(stage) : "") +
+    (options.hair ? hairSection(options.hair) : "") +
+    (options.reference ? REFERENCE_SECTION : "") +
+    (options.reask ? REASK_SUFFIX : "")
+  );
+};
@@ -0,0 +1,17 @@
+// Data URL helpers that work in both the browser and Node (no DOM access).
+
+export const parseDataUrl = (dataUrl: string): { mimeType: string; data: string } => {
+  const match = dataUrl.match(/^data:(image\/\w+);base64,(.+)$/);
+  if (!match) return { mimeType: "image/jpeg", data: dataUrl };
+  return { mimeType: match[1], data: match[2] };
+};
+
+export const dataUrlToBytes = (dataUrl: string): { mimeType: string; bytes: Uint8Array } => {
+  const { mimeType, data } = parseDataUrl(dataUrl);
+  const binary = atob(data);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return { mimeType, bytes };
+};
@@ -0,0 +1,57 @@
+/**
+ * fal.ai FLUX inpainting.
+ *
+ * Unlike the multimodal models, FLUX gets a real mask: only the white area of
+ * `maskDataUrl` is regenerated. Requests go through our /api/fal/proxy so
+ * the FAL_KEY stays on the server.
+ */
+
+import { fal } from "@fal-ai/client";
+import { SimulationError } from "../errors";
+import type { GenerationRequest, ImageProvider } from "./types";
+
+export const FAL_ENDPOINT_ID = "fal-ai/flux-lora/inpainting";
+
+export const createFalProvider = (proxyUrl = "/api/fal/proxy"): ImageProvider => {
+  fal.config({ proxyUrl });
+
+  const generate = async ({
+    originalDataUrl,
+    maskDataUrl,
+    prompt,
+    label,
+    signal,
+  }: GenerationRequest): Promise<string> => {
+    if (!maskDataUrl) {
+      throw new Error("FLUX inpainting requer a mascara da marcacao");
+    }
+
+    console.log(`[FLUX] Processing ${label} (inpainting)...`);
+    const start = Date.now();
+
+    const result = await fal.subscribe(FAL_ENDPOINT_ID, {
+      input: {
+        prompt,
+        image_url: originalDataUrl,
+        mask_url: maskDataUrl,
+        strength: 0.85,
+      },
+      abortSignal: signal,
+    }) as any;
+
+    const elapsed = ((Date.now() - start) / 1000).toFixed(1);
+    console.log(`[FLUX] ${label} done in ${elapsed}s`);
+
+    // fal.ai may return images at result.images or result.data.images
+    const images = result?.images || result?.data?.images;
+    if (images?.[0]?.url) return images[0].url;
+
+    throw new SimulationError("no_image", "Modelo nao retornou imagem — tente novamente");
+  };
+
+  return {
+    id: "fal",
+    label: "FLUX Inpainting (fal.ai)",
+    generate,
+  };
+};
@@ -0,0 +1,103 @@
+/**
+ * Gemini 3 Pro Image (Nano Banana Pro) — two-image approach.
+ *
+ * Sends the original photo and the annotated photo in a single request and
+ * lets the prompt explain how they relate. A reference before/after case,
+ * when given, goes last as a worked example.
+ */
+
+import { GoogleGenAI } from "@google/genai";
+import { SimulationError } from "../errors";
+import { parseDataUrl } from "./dataUrl";
+import type { GenerationRequest, ImageProvider } from "./types";
+
+export const GEMINI_MODEL_ID = "gemini-3-pro-image-preview";
+
+const SAFETY_FINISH_REASONS = ["SAFETY", "IMAGE_SAFETY", "PROHIBITED_CONTENT", "BLOCKLIST", "SPII"];
+
+export const createGeminiProvider = (apiKey: string): ImageProvider => {
+  if (!apiKey) {
+    console.warn("[Gemini] No GEMINI_API_KEY found — API calls will fail");
+  }
+
+  const ai = new GoogleGenAI({ apiKey });
+
+  const callGeminiTwoImages = async ({
+    originalDataUrl,
+    annotatedDataUrl,
+    referenceDataUrl,
+    prompt,
+    label,
+    temperature = 0.8,
+    signal,
+  }: GenerationRequest): Promise<string> => {
+    console.log(`[Gemini] Processing ${label} (temp=${temperature}, ${referenceDataUrl ? 3 : 2} images)...`);
+    const start = Date.now();
+
+    const original = parseDataUrl(originalDataUrl);
+    const annotated = parseDataUrl(annotatedDataUrl);
+    const reference = referenceDataUrl ? parseDataUrl(referenceDataUrl) : null;
+
+    const response = await ai.models.generateContent({
+      model: GEMINI_MODEL_ID,
+      contents: [
+        { text: prompt },
+        {
+          inlineData: {
+            mimeType: original.mimeType,
+            data: original.data,
+          },
+        },
+        {
+          inlineData: {
+            mimeType: annotated.mimeType,
+            data: annotated.data,
+          },
+        },
+        ...(reference
+          ? [{ inlineData: { mimeType: reference.mimeType, data: reference.data } }]
+          : []),
+      ],
+      config: {
+        responseModalities: ["TEXT", "IMAGE"],
+        temperature,
+        abortSignal: signal,
+      },
+    });
+
+    const elapsed = ((Date.now() - start) / 1000).toFixed(1);
+    console.log(`[Gemini] ${label} done in ${elapsed}s`);
+
+    const blockReason = response?.promptFeedback?.blockReason;
+    const finishReason = response?.candidates?.[0]?.finishReason;
+    if (blockReason || (finishReason && SAFETY_FINISH_REASONS.includes(finishReason))) {
+      throw new SimulationError("safety", `Bloqueado pelo filtro de seguranca (${blockReason || finishReason})`);
+    }
+
+    const parts = response?.candidates?.[0]?.content?.parts;
+    if (!parts) {
+      throw new SimulationError("no_image", "Resposta vazia do modelo");
+    }
+
+    for (const part of parts) {
+      if ((part as any).inlineData) {
+        const inlineData = (part as any).inlineData;
+        return `data:${inlineData.mimeType || "image/png"};base64,${inlineData.data}`;
+      }
+    }
+
+    for (const part of parts) {
+      if ((part as any).text) {
+        console.warn(`[Gemini] Text instead of image (${label}):`, (part as any).text);
+      }
+    }
+
+    throw new SimulationError("no_image", "Modelo nao retornou imagem — tente novamente");
+  };
+
+  return {
+    id: "gemini",
+    label: "Gemini 3 Pro Image",
+    generate: callGeminiTwoImages,
+  };
+};
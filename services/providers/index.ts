@@ -0,0 +1,68 @@
+/**
+ * Provider registry (browser).
+ *
+ * Providers are built lazily on first use. Gemini and OpenAI are reached
+ * through api/simulate and FLUX through api/fal/proxy, so no API key is
+ * bundled into the browser. The active provider is resolved per
+ * angle: explicit override > IMAGE_PROVIDER_BY_ANGLE > IMAGE_PROVIDER > gemini.
+ *
+ *   IMAGE_PROVIDER=mock
+ *   IMAGE_PROVIDER_BY_ANGLE=frontal=gemini,top=fal
+ */
+
+import type { SimulationAngle } from "../../types";
+import { createFalProvider } from "./falProvider";
+import { createMockProvider } from "./mockProvider";
+import { createServerProvider } from "./serverProvider";
+import type { ImageProvider, ImageProviderId } from "./types";
+
+export type { GenerationRequest, ImageProvider, ImageProviderId } from "./types";
+
+export const PROVIDER_IDS: ImageProviderId[] = ['gemini', 'openai', 'fal', 'mock'];
+
+export const PROVIDER_LABELS: Record<ImageProviderId, string> = {
+  gemini: 'Gemini',
+  openai: 'OpenAI',
+  fal: 'FLUX',
+  mock: 'Mock',
+};
+
+const FACTORIES: Record<ImageProviderId, () => ImageProvider> = {
+  gemini: () => createServerProvider('gemini'),
+  openai: () => createServerProvider('openai'),
+  fal: () => createFalProvider(),
+  mock: () => createMockProvider(),
+};
+
+const instances: Partial<Record<ImageProviderId, ImageProvider>> = {};
+
+const isProviderId = (value: string | undefined): value is ImageProviderId =>
+  !!value && (PROVIDER_IDS as string[]).includes(value);
+
+const parseAngleOverrides = (raw: string | undefined): Partial<Record<string, ImageProviderId>> => {
+  const overrides: Partial<Record<string, ImageProviderId>> = {};
+  for (const entry of (raw || '').split(',')) {
+    const [angle, id] = entry.split('=').map((s) => s.trim());
+    if (angle && isProviderId(id)) overrides[angle] = id;
+  }
+  return overrides;
+};
+
+const DEFAULT_PROVIDER: ImageProviderId = isProviderId(process.env.IMAGE_PROVIDER)
+  ? process.env.IMAGE_PROVIDER
+  : 'gemini';
+
+const ANGLE_OVERRIDES = parseAngleOverrides(process.env.IMAGE_PROVIDER_BY_ANGLE);
+
+/** Provider configured for an angle by the environment */
+export const resolveProviderId = (
+  angle: SimulationAngle,
+  override?: ImageProviderId
+): ImageProviderId => override || ANGLE_OVERRIDES[angle] || DEFAULT_PROVIDER;
+
+export const getProvider = (id: ImageProviderId): ImageProvider => {
+  if (!instances[id]) {
+    instances[id] = FACTORIES[id]();
+  }
+  return instances[id]!;
+};
@@ -0,0 +1,23 @@
+/**
+ * Deterministic offline provider.
+ *
+ * Returns the (pre-filled) original photo untouched after a fixed delay, so
+ * the whole pipeline can be exercised without network access or API cost.
+ */
+
+import { sleep } from "../retry";
+import type { GenerationRequest, ImageProvider } from "./types";
+
+export const createMockProvider = (latencyMs = 600): ImageProvider => {
+  const generate = async ({ originalDataUrl, label, signal }: GenerationRequest): Promise<string> => {
+    console.log(`[Mock] Processing ${label}...`);
+    await sleep(latencyMs, signal);
+    return originalDataUrl;
+  };
+
+  return {
+    id: "mock",
+    label: "Mock (offline)",
+    generate,
+  };
+};
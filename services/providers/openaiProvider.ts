@@ -0,0 +1,60 @@
+/**
+ * OpenAI GPT Image 1 via images.edit.
+ *
+ * Mirrors the Gemini two-image approach: both the original and the annotated
+ * photo are sent as input images, with the same prompt.
+ */
+
+import OpenAI, { toFile } from "openai";
+import { dataUrlToBytes } from "./dataUrl";
+import { SimulationError } from "../errors";
+import type { GenerationRequest, ImageProvider } from "./types";
+
+export const OPENAI_MODEL_ID = "gpt-image-1";
+
+export const createOpenAIProvider = (apiKey: string): ImageProvider => {
+  if (!apiKey) {
+    console.warn("[OpenAI] No OPENAI_API_KEY found — API calls will fail");
+  }
+
+  const client = new OpenAI({ apiKey });
+
+  const generate = async ({
+    originalDataUrl,
+    annotatedDataUrl,
+    prompt,
+    label,
+    signal,
+  }: GenerationRequest): Promise<string> => {
+    console.log(`[OpenAI] Processing ${label} (2 images)...`);
+    const start = Date.now();
+
+    const original = dataUrlToBytes(originalDataUrl);
+    const annotated = dataUrlToBytes(annotatedDataUrl);
+
+    const response = await client.images.edit({
+      model: OPENAI_MODEL_ID,
+      image: [
+        await toFile(original.bytes, "original.png", { type: original.mimeType }),
+        await toFile(annotated.bytes, "annotated.png", { type: annotated.mimeType }),
+      ],
+      prompt,
+      size: "auto",
+    }, { signal });
+
+    const elapsed = ((Date.now() - start) / 1000).toFixed(1);
+    console.log(`[OpenAI] ${label} done in ${elapsed}s`);
+
+    const image = response.data?.[0];
+    if (image?.b64_json) return `data:image/png;base64,${image.b64_json}`;
+    if (image?.url) return image.url;
+
+    throw new SimulationError("no_image", "Modelo nao retornou imagem — tente novamente");
+  };
+
+  return {
+    id: "openai",
+    label: "OpenAI GPT Image 1",
+    generate,
+  };
+};
@@ -0,0 +1,116 @@
+/**
+ * Thin browser client for api/simulate.
+ *
+ * The server owns the API keys and the prompts; the browser only uploads the
+ * prepared images and tells it which angle and backend to use.
+ */
+
+import {
+  classifyError,
+  isAbortError,
+  isSimulationErrorCategory,
+  SimulationError,
+  type SimulationErrorCategory,
+} from "../errors";
+import type { GenerationRequest, ImageProvider, ImageProviderId } from "./types";
+
+export type ServerProviderId = Extract<ImageProviderId, "gemini" | "openai">;
+
+/** Body accepted by POST /api/simulate */
+export interface SimulateRequestBody {
+  provider: ServerProviderId;
+  angle: GenerationRequest["angle"];
+  original: string;
+  composite: string;
+  mask?: string;
+  temperature?: number;
+  reask?: boolean;
+  density?: GenerationRequest["density"];
+  hair?: GenerationRequest["hair"];
+  stage?: GenerationRequest["stage"];
+  /** Reference case, data URL; only the Gemini backend uses it */
+  reference?: string;
+}
+
+/** Response of POST /api/simulate (success or error) */
+export interface SimulateResponseBody {
+  image?: string;
+  error?: string;
+  message?: string;
+  category?: SimulationErrorCategory;
+}
+
+const LABELS: Record<ServerProviderId, string> = {
+  gemini: "Gemini 3 Pro Image",
+  openai: "OpenAI GPT Image 1",
+};
+
+export const createServerProvider = (
+  id: ServerProviderId,
+  endpoint = "/api/simulate"
+): ImageProvider => {
+  const generate = async ({
+    angle,
+    originalDataUrl,
+    annotatedDataUrl,
+    maskDataUrl,
+    label,
+    temperature,
+    reask,
+    density,
+    hair,
+    stage,
+    referenceDataUrl,
+    signal,
+  }: GenerationRequest): Promise<string> => {
+    console.log(`[${id}] Processing ${label} via ${endpoint}...`);
+    const start = Date.now();
+
+    const body: SimulateRequestBody = {
+      provider: id,
+      angle,
+      original: originalDataUrl,
+      composite: annotatedDataUrl,
+      mask: maskDataUrl,
+      temperature,
+      reask,
+      density,
+      hair,
+      stage,
+      reference: referenceDataUrl,
+    };
+
+    let response: Response;
+    try {
+      response = await fetch(endpoint, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(body),
+        signal,
+      });
+    } catch (err) {
+      if (isAbortError(err)) throw err;
+      throw classifyError(err);
+    }
+
+    const payload = (await response.json().catch(() => ({}))) as SimulateResponseBody;
+
+    const elapsed = ((Date.now() - start) / 1000).toFixed(1);
+    console.log(`[${id}] ${label} done in ${elapsed}s (HTTP ${response.status})`);
+
+    if (!response.ok || !payload.image) {
+      const message = payload.message || payload.error || `Erro no servidor (${response.status})`;
+      if (isSimulationErrorCategory(payload.category)) {
+        throw new SimulationError(payload.category, message);
+      }
+      throw classifyError(Object.assign(new Error(message), { status: response.status }));
+    }
+    return payload.image;
+  };
+
+  return {
+    id,
+    label: LABELS[id],
+    generate,
+  };
+};
@@ -0,0 +1,41 @@
+import type { DensityLevel, GrowthStage, SimulationAngle } from '../../types';
+import type { HairPromptInfo } from '../prompts';
+
+// --- Image generation providers ---
+
+export type ImageProviderId = 'gemini' | 'openai' | 'fal' | 'mock';
+
+/** Everything a backend needs to produce one simulated photo */
+export interface GenerationRequest {
+  angle: SimulationAngle;
+  /** Original photo (already pre-filled and compressed), data URL */
+  originalDataUrl: string;
+  /** Same photo with the user's red markings, data URL */
+  annotatedDataUrl: string;
+  /** Black/white inpainting mask (white = add hair), same size as original */
+  maskDataUrl?: string;
+  /** Ignored by the server-backed providers, which rebuild it from `angle` */
+  prompt: string;
+  /** Previous attempt returned text only; the prompt carries a reminder */
+  reask?: boolean;
+  /** Target density; the server-backed providers rebuild the prompt with it */
+  density?: DensityLevel;
+  /** Sampled hair colour and texture; also rebuilt into the prompt server-side */
+  hair?: HairPromptInfo;
+  /** Growth stage in months; also rebuilt into the prompt server-side */
+  stage?: GrowthStage;
+  /** Before/after reference case sent as a third image, data URL (Gemini only) */
+  referenceDataUrl?: string;
+  /** Used for logging only */
+  label: string;
+  temperature?: number;
+  /** Cancels the in-flight request */
+  signal?: AbortSignal;
+}
+
+export interface ImageProvider {
+  id: ImageProviderId;
+  label: string;
+  /** Returns the generated image as a data URL (or a remote URL for fal) */
+  generate: (request: GenerationRequest) => Promise<string>;
+}
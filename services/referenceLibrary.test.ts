@@ -0,0 +1,42 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { findReference, referenceArms, REFERENCE_LIBRARY } from './referenceLibrary';
+
+describe('referenceArms', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('attaches the reference to every variant or none', () => {
+    expect(referenceArms('on', 3)).toEqual([true, true, true]);
+    expect(referenceArms('off', 3)).toEqual([false, false, false]);
+  });
+
+  it('alternates under A/B, starting without', () => {
+    expect(referenceArms('ab', 2)).toEqual([false, true]);
+    expect(referenceArms('ab', 4)).toEqual([false, true, false, true]);
+    expect(referenceArms('ab', 3)).toEqual([false, true, false]);
+  });
+
+  it('flips a coin for a single A/B variant', () => {
+    vi.spyOn(Math, 'random').mockReturnValueOnce(0.2).mockReturnValueOnce(0.8);
+    expect(referenceArms('ab', 1)).toEqual([true]);
+    expect(referenceArms('ab', 1)).toEqual([false]);
+  });
+
+  it('is empty without variants', () => {
+    expect(referenceArms('ab', 0)).toEqual([]);
+  });
+});
+
+describe('findReference', () => {
+  it('only returns cases listed for the angle', () => {
+    for (const angle of ['frontal', 'top', 'crown', 'left'] as const) {
+      expect(findReference(angle)?.angles).toContain(angle);
+    }
+  });
+
+  it('is null for angles without a case', () => {
+    expect(REFERENCE_LIBRARY.some((ref) => ref.angles.includes('beard_front'))).toBe(false);
+    expect(findReference('beard_front')).toBeNull();
+  });
+});
@@ -0,0 +1,72 @@
+/**
+ * Reference library: real before/after cases attached to Gemini requests as
+ * a worked example (few-shot prompting).
+ *
+ * Each case is one side-by-side composite, before on the left half and after
+ * on the right. To add a case, drop the composite in assets/reference/ and
+ * add an entry to REFERENCE_LIBRARY with the angles it illustrates. Angles
+ * without a case are always sent without one.
+ *
+ *   REFERENCE_EXAMPLES=off | on | ab   (default off)
+ *
+ * `ab` attaches the reference to every other variant, so the consultant can
+ * compare variants with and without it side by side.
+ */
+
+import fueFront from '../assets/reference/fue-front-before-after.jpg';
+import fueLeft from '../assets/reference/fue-left-before-after.jpg';
+import fueTop from '../assets/reference/fue-top-before-after.jpg';
+import { compressImage } from './imageUtils';
+import type { ReferenceMode, SimulationAngle } from '../types';
+
+export interface ReferenceCase {
+  id: string;
+  /** Side-by-side before/after composite (bundled asset URL) */
+  src: string;
+  angles: SimulationAngle[];
+}
+
+export const REFERENCE_LIBRARY: ReferenceCase[] = [
+  { id: 'fue-front', src: fueFront, angles: ['frontal'] },
+  { id: 'fue-top', src: fueTop, angles: ['top', 'crown'] },
+  { id: 'fue-left', src: fueLeft, angles: ['left'] },
+];
+
+export const REFERENCE_MODES: ReferenceMode[] = ['off', 'on', 'ab'];
+
+const isReferenceMode = (value: string | undefined): value is ReferenceMode =>
+  !!value && (REFERENCE_MODES as string[]).includes(value);
+
+export const DEFAULT_REFERENCE_MODE: ReferenceMode = isReferenceMode(process.env.REFERENCE_EXAMPLES)
+  ? process.env.REFERENCE_EXAMPLES
+  : 'off';
+
+/** References are sent smaller than the patient photos: they only guide */
+const REFERENCE_MAX_SIDE = 1024;
+
+/** A case for the angle, picked at random when several match */
+export const findReference = (angle: SimulationAngle): ReferenceCase | null => {
+  const matches = REFERENCE_LIBRARY.filter((ref) => ref.angles.includes(angle));
+  return matches.length ? matches[Math.floor(Math.random() * matches.length)] : null;
+};
+
+const loaded = new Map<string, Promise<string>>();
+
+/** The case as a compressed JPEG data URL (loaded once), or null if it fails to load */
+export const loadReference = async (ref: ReferenceCase): Promise<string | null> => {
+  if (!loaded.has(ref.id)) loaded.set(ref.id, compressImage(ref.src, REFERENCE_MAX_SIDE, 0.85));
+  const dataUrl = await loaded.get(ref.id)!;
+  // compressImage hands back its input when decoding fails
+  if (dataUrl.startsWith('data:')) return dataUrl;
+  loaded.delete(ref.id);
+  return null;
+};
+
+/**
+ * Which of `count` variants get the reference under `mode`. A/B alternates,
+ * starting without; a single variant flips a coin.
+ */
+export const referenceArms = (mode: ReferenceMode, count: number): boolean[] =>
+  Array.from({ length: count }, (_, index) =>
+    mode === 'on' ? true : mode === 'ab' ? (count > 1 ? index % 2 === 1 : Math.random() < 0.5) : false
+  );
@@ -0,0 +1,273 @@
+/**
+ * Consultation report (PDF), generated entirely in the browser.
+ *
+ * One A4 document with the patient data, every simulated angle as
+ * before / marked / after (plus the growth timeline when generated), the
+ * area and graft estimate, the consultant's
+ * notes and the disclaimer. jsPDF is loaded on demand so it stays out of
+ * the main bundle.
+ */
+
+import { loadImage } from './imageUtils';
+import { formatArea, formatGrafts } from './measurement';
+import type { DensityRange, Patient } from '../types';
+
+export interface ReportAngle {
+  label: string;
+  before: string;
+  marked: string | null;
+  after: string | null;
+  areaCm2: number | null;
+  grafts: { min: number; max: number } | null;
+  /** Growth stages in order, when the timeline was generated */
+  timeline?: { label: string; image: string }[];
+}
+
+export interface ConsultationReport {
+  patient: Patient | null;
+  /** Consultation date (ms) */
+  date: number;
+  /** Procedure label, as shown in the wizard */
+  procedure: string;
+  angles: ReportAngle[];
+  densityRange: DensityRange;
+  notes: string;
+}
+
+export const REPORT_DISCLAIMER =
+  'Esta simulacao e meramente ilustrativa, gerada por inteligencia artificial a partir das fotos fornecidas, ' +
+  'e nao representa garantia de resultado. O resultado real depende de avaliacao medica, da area doadora ' +
+  'disponivel e da resposta individual ao procedimento.';
+
+const BRAND_BLUE: [number, number, number] = [29, 73, 152];
+const BRAND_TEAL: [number, number, number] = [87, 190, 183];
+const TEXT_GRAY: [number, number, number] = [107, 114, 128];
+
+const PAGE_WIDTH = 210;
+const PAGE_HEIGHT = 297;
+const MARGIN = 15;
+const CONTENT_WIDTH = PAGE_WIDTH - MARGIN * 2;
+const FOOTER_HEIGHT = 12;
+
+const IMAGE_MAX_SIDE = 1024;
+
+interface PreparedImage {
+  dataUrl: string;
+  width: number;
+  height: number;
+}
+
+/** Re-encode as a modest JPEG: keeps the PDF small and avoids slow PNG embedding */
+const prepareImage = async (src: string): Promise<PreparedImage | null> => {
+  try {
+    const local = src.startsWith('data:') || src.startsWith('blob:');
+    const img = await loadImage(src, local ? undefined : 'anonymous');
+    const ratio = Math.min(1, IMAGE_MAX_SIDE / Math.max(img.naturalWidth, img.naturalHeight));
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.round(img.naturalWidth * ratio);
+    canvas.height = Math.round(img.naturalHeight * ratio);
+    const ctx = canvas.getContext('2d')!;
+    // JPEG has no alpha: flatten transparent marks onto white
+    ctx.fillStyle = '#fff';
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+    ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
+    return { dataUrl: canvas.toDataURL('image/jpeg', 0.85), width: canvas.width, height: canvas.height };
+  } catch (err) {
+    console.warn('[Report] Imagem ignorada:', err);
+    return null;
+  }
+};
+
+const formatDate = (timestamp: number) => new Date(timestamp).toLocaleDateString('pt-BR');
+
+export const reportFileName = (report: ConsultationReport) => {
+  const slug = (report.patient?.name || 'simulacao')
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-|-$/g, '');
+  return `homenz-relatorio-${slug}-${new Date(report.date).toISOString().slice(0, 10)}.pdf`;
+};
+
+export const buildConsultationReport = async (report: ConsultationReport): Promise<Blob> => {
+  const { jsPDF } = await import('jspdf');
+  const doc = new jsPDF({ unit: 'mm', format: 'a4' });
+  let y = 0;
+
+  const ensureSpace = (height: number) => {
+    if (y + height > PAGE_HEIGHT - MARGIN - FOOTER_HEIGHT) {
+      doc.addPage();
+      y = MARGIN;
+    }
+  };
+
+  const heading = (text: string) => {
+    ensureSpace(12);
+    doc.setFont('helvetica', 'bold');
+    doc.setFontSize(11);
+    doc.setTextColor(...BRAND_BLUE);
+    doc.text(text.toUpperCase(), MARGIN, y);
+    doc.setDrawColor(...BRAND_TEAL);
+    doc.setLineWidth(0.5);
+    doc.line(MARGIN, y + 1.5, MARGIN + CONTENT_WIDTH, y + 1.5);
+    y += 7;
+  };
+
+  const paragraph = (text: string, size = 9.5, color = TEXT_GRAY) => {
+    doc.setFont('helvetica', 'normal');
+    doc.setFontSize(size);
+    doc.setTextColor(...color);
+    const lines: string[] = doc.splitTextToSize(text, CONTENT_WIDTH);
+    const lineHeight = size * 0.45;
+    for (const line of lines) {
+      ensureSpace(lineHeight);
+      doc.text(line, MARGIN, y);
+      y += lineHeight;
+    }
+    y += 2;
+  };
+
+  // --- Header band ---
+  doc.setFillColor(...BRAND_BLUE);
+  doc.rect(0, 0, PAGE_WIDTH, 26, 'F');
+  doc.setFont('helvetica', 'bold');
+  doc.setFontSize(22);
+  doc.setTextColor(...BRAND_TEAL);
+  doc.text('HOMENZ', MARGIN, 16);
+  doc.setFontSize(10);
+  doc.setTextColor(255, 255, 255);
+  doc.text('Relatorio de Simulacao Capilar', MARGIN + 42, 16);
+  doc.setFont('helvetica', 'normal');
+  doc.text(formatDate(report.date), PAGE_WIDTH - MARGIN, 16, { align: 'right' });
+  y = 36;
+
+  // --- Patient ---
+  heading('Paciente');
+  const patient = report.patient;
+  const patientRows: [string, string][] = patient
+    ? [
+        ['Nome', patient.name],
+        ['Idade', patient.age !== null ? `${patient.age} anos` : '—'],
+        ['Norwood', patient.norwood ?? '—'],
+        ['Contato', patient.contact || '—'],
+        ['Procedimento', report.procedure],
+      ]
+    : [['Nome', 'Nao informado'], ['Procedimento', report.procedure]];
+  doc.setFontSize(9.5);
+  for (const [label, value] of patientRows) {
+    doc.setFont('helvetica', 'bold');
+    doc.setTextColor(...BRAND_BLUE);
+    doc.text(`${label}:`, MARGIN, y);
+    doc.setFont('helvetica', 'normal');
+    doc.setTextColor(...TEXT_GRAY);
+    doc.text(value, MARGIN + 26, y);
+    y += 5;
+  }
+  y += 4;
+
+  // --- Angles ---
+  const columns = ['Antes', 'Marcacao', 'Simulacao'];
+  const gap = 4;
+  const cellWidth = (CONTENT_WIDTH - gap * (columns.length - 1)) / columns.length;
+
+  for (const angle of report.angles) {
+    const images = await Promise.all(
+      [angle.before, angle.marked, angle.after].map((src) => (src ? prepareImage(src) : Promise.resolve(null)))
+    );
+    const cellHeight = Math.min(
+      80,
+      Math.max(...images.map((img) => (img ? (cellWidth * img.height) / img.width : 0)), cellWidth * 0.75)
+    );
+
+    ensureSpace(7 + cellHeight + 6 + 8);
+    heading(angle.label);
+
+    images.forEach((img, i) => {
+      const x = MARGIN + i * (cellWidth + gap);
+      if (img) {
+        // Fit inside the cell, keeping the aspect ratio
+        const scale = Math.min(cellWidth / img.width, cellHeight / img.height);
+        const w = img.width * scale;
+        const h = img.height * scale;
+        doc.addImage(img.dataUrl, 'JPEG', x + (cellWidth - w) / 2, y + (cellHeight - h) / 2, w, h);
+      } else {
+        doc.setFillColor(243, 244, 246);
+        doc.rect(x, y, cellWidth, cellHeight, 'F');
+      }
+      doc.setFont('helvetica', 'bold');
+      doc.setFontSize(8);
+      doc.setTextColor(...TEXT_GRAY);
+      doc.text(columns[i].toUpperCase(), x + cellWidth / 2, y + cellHeight + 4, { align: 'center' });
+    });
+    y += cellHeight + 9;
+
+    if (angle.areaCm2 !== null && angle.grafts) {
+      doc.setFont('helvetica', 'bold');
+      doc.setFontSize(9.5);
+      doc.setTextColor(...BRAND_BLUE);
+      doc.text(
+        `Area tratada: ${formatArea(angle.areaCm2)}   ·   Estimativa: ${formatGrafts(angle.grafts)} ` +
+          `(${report.densityRange.min}–${report.densityRange.max} UF/cm²)`,
+        MARGIN,
+        y
+      );
+      y += 8;
+    }
+
+    if (angle.timeline?.length) {
+      const frames = await Promise.all(angle.timeline.map((stage) => prepareImage(stage.image)));
+      const frameGap = 3;
+      const frameWidth = (CONTENT_WIDTH - frameGap * (angle.timeline.length - 1)) / angle.timeline.length;
+      ensureSpace(frameWidth + 12);
+      doc.setFont('helvetica', 'bold');
+      doc.setFontSize(8);
+      doc.setTextColor(...BRAND_BLUE);
+      doc.text('LINHA DO TEMPO', MARGIN, y);
+      y += 3;
+
+      angle.timeline.forEach((stage, i) => {
+        const x = MARGIN + i * (frameWidth + frameGap);
+        const img = frames[i];
+        if (img) {
+          const scale = Math.min(frameWidth / img.width, frameWidth / img.height);
+          const w = img.width * scale;
+          const h = img.height * scale;
+          doc.addImage(img.dataUrl, 'JPEG', x + (frameWidth - w) / 2, y + (frameWidth - h) / 2, w, h);
+        } else {
+          doc.setFillColor(243, 244, 246);
+          doc.rect(x, y, frameWidth, frameWidth, 'F');
+        }
+        doc.setFont('helvetica', 'bold');
+        doc.setFontSize(7);
+        doc.setTextColor(...TEXT_GRAY);
+        doc.text(stage.label.toUpperCase(), x + frameWidth / 2, y + frameWidth + 3.5, { align: 'center' });
+      });
+      y += frameWidth + 9;
+    }
+  }
+
+  // --- Notes ---
+  if (report.notes.trim()) {
+    heading('Observacoes do consultor');
+    paragraph(report.notes.trim(), 9.5, [55, 65, 81]);
+    y += 2;
+  }
+
+  // --- Disclaimer ---
+  heading('Aviso');
+  paragraph(REPORT_DISCLAIMER, 8.5);
+
+  // --- Footer on every page ---
+  const pageCount = doc.getNumberOfPages();
+  for (let page = 1; page <= pageCount; page++) {
+    doc.setPage(page);
+    doc.setFont('helvetica', 'normal');
+    doc.setFontSize(7.5);
+    doc.setTextColor(...TEXT_GRAY);
+    doc.text('Simulacao ilustrativa — nao representa garantia de resultado.', MARGIN, PAGE_HEIGHT - 8);
+    doc.text(`${page} / ${pageCount}`, PAGE_WIDTH - MARGIN, PAGE_HEIGHT - 8, { align: 'right' });
+  }
+
+  return doc.output('blob');
+};
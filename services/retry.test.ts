@@ -0,0 +1,125 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { classifyError, isAbortError, SimulationError } from './errors';
+import { withRetry } from './retry';
+
+const abortError = () => new DOMException('Aborted', 'AbortError');
+
+describe('classifyError', () => {
+  it('keeps a SimulationError as is', () => {
+    const err = new SimulationError('safety');
+    expect(classifyError(err)).toBe(err);
+  });
+
+  it('prefers the HTTP status over the message', () => {
+    expect(classifyError(Object.assign(new Error('blocked'), { status: 429 })).category).toBe('quota');
+    expect(classifyError(Object.assign(new Error('x'), { statusCode: 504 })).category).toBe('timeout');
+    expect(classifyError(Object.assign(new Error('x'), { status: 503 })).category).toBe('network');
+  });
+
+  it('guesses the category from the message', () => {
+    expect(classifyError(new Error('RESOURCE_EXHAUSTED')).category).toBe('quota');
+    expect(classifyError(new Error('Request blocked by safety filters')).category).toBe('safety');
+    expect(classifyError(new Error('deadline exceeded')).category).toBe('timeout');
+    expect(classifyError(new Error('Modelo nao retornou imagem')).category).toBe('no_image');
+    expect(classifyError(new TypeError('Failed to fetch')).category).toBe('network');
+    expect(classifyError('something odd').category).toBe('unknown');
+  });
+
+  it('treats a TimeoutError as a timeout', () => {
+    expect(classifyError(new DOMException('slow', 'TimeoutError')).category).toBe('timeout');
+  });
+
+  it('only retries transient categories', () => {
+    expect(new SimulationError('network').retryable).toBe(true);
+    expect(new SimulationError('safety').retryable).toBe(false);
+    expect(new SimulationError('unknown').retryable).toBe(false);
+  });
+});
+
+describe('withRetry', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it('returns the first success without waiting', async () => {
+    const fn = vi.fn(async () => 'ok');
+    await expect(withRetry(fn)).resolves.toBe('ok');
+    expect(fn).toHaveBeenCalledTimes(1);
+  });
+
+  it('retries retryable errors with the attempt number and last error', async () => {
+    const fn = vi
+      .fn<(attempt: number, lastError?: SimulationError) => Promise<string>>()
+      .mockRejectedValueOnce(new Error('fetch failed'))
+      .mockResolvedValueOnce('ok');
+    const onRetry = vi.fn();
+
+    await expect(withRetry(fn, { baseDelayMs: 1, onRetry })).resolves.toBe('ok');
+    expect(fn).toHaveBeenNthCalledWith(1, 0, undefined);
+    expect(fn.mock.calls[1][0]).toBe(1);
+    expect(fn.mock.calls[1][1]?.category).toBe('network');
+    expect(onRetry).toHaveBeenCalledWith(1, expect.any(SimulationError), expect.any(Number));
+  });
+
+  it('throws non-retryable errors straight away, classified', async () => {
+    const fn = vi.fn(async () => {
+      throw new Error('content policy violation');
+    });
+    await expect(withRetry(fn, { baseDelayMs: 1 })).rejects.toMatchObject({ category: 'safety' });
+    expect(fn).toHaveBeenCalledTimes(1);
+  });
+
+  it('gives up after the configured retries', async () => {
+    const fn = vi.fn(async () => {
+      throw new Error('timed out');
+    });
+    await expect(withRetry(fn, { retries: 2, baseDelayMs: 1 })).rejects.toMatchObject({ category: 'timeout' });
+    expect(fn).toHaveBeenCalledTimes(3);
+  });
+
+  it('backs off exponentially, twice as long for quota, capped', async () => {
+    vi.useFakeTimers();
+    vi.spyOn(Math, 'random').mockReturnValue(0.5); // no jitter
+    const delays: number[] = [];
+    const fn = vi.fn(async () => {
+      throw new Error('rate limit');
+    });
+
+    const run = withRetry(fn, {
+      retries: 3,
+      baseDelayMs: 1000,
+      maxDelayMs: 5000,
+      onRetry: (_, __, delayMs) => delays.push(delayMs),
+    });
+    const settled = expect(run).rejects.toMatchObject({ category: 'quota' });
+    await vi.runAllTimersAsync();
+    await settled;
+
+    expect(delays).toEqual([2000, 4000, 5000]);
+  });
+
+  it('propagates an abort untouched and never retries it', async () => {
+    const fn = vi.fn(async () => {
+      throw abortError();
+    });
+    const err = await withRetry(fn, { baseDelayMs: 1 }).catch((e) => e);
+    expect(isAbortError(err)).toBe(true);
+    expect(fn).toHaveBeenCalledTimes(1);
+  });
+
+  it('stops waiting as soon as the signal aborts', async () => {
+    const controller = new AbortController();
+    const fn = vi.fn(async () => {
+      throw new Error('network');
+    });
+    const run = withRetry(fn, {
+      baseDelayMs: 60_000,
+      signal: controller.signal,
+      onRetry: () => controller.abort(abortError()),
+    });
+    const err = await run.catch((e) => e);
+    expect(isAbortError(err)).toBe(true);
+    expect(fn).toHaveBeenCalledTimes(1);
+  });
+});
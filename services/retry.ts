@@ -0,0 +1,57 @@
+import { classifyError, isAbortError, SimulationError } from './errors';
+
+export interface RetryOptions {
+  /** Extra attempts after the first one */
+  retries?: number;
+  baseDelayMs?: number;
+  maxDelayMs?: number;
+  /** Called before each retry with the error that caused it */
+  onRetry?: (attempt: number, error: SimulationError, delayMs: number) => void;
+  /** Stops waiting and retrying as soon as it is aborted */
+  signal?: AbortSignal;
+}
+
+/** setTimeout that rejects with the signal's AbortError when aborted */
+export const sleep = (ms: number, signal?: AbortSignal): Promise<void> =>
+  new Promise((resolve, reject) => {
+    if (signal?.aborted) return reject(signal.reason);
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal!.reason);
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+
+/**
+ * Run `fn` until it succeeds, retrying retryable SimulationErrors with
+ * exponential backoff and jitter. Quota errors wait twice as long.
+ * `fn` receives the attempt number (0-based) so it can adapt, e.g. re-ask.
+ * Aborts are never retried and propagate as the original AbortError.
+ */
+export const withRetry = async <T>(
+  fn: (attempt: number, lastError?: SimulationError) => Promise<T>,
+  { retries = 2, baseDelayMs = 1500, maxDelayMs = 20000, onRetry, signal }: RetryOptions = {}
+): Promise<T> => {
+  let lastError: SimulationError | undefined;
+
+  for (let attempt = 0; ; attempt++) {
+    signal?.throwIfAborted();
+    try {
+      return await fn(attempt, lastError);
+    } catch (err) {
+      if (isAbortError(err) || signal?.aborted) throw err;
+      lastError = classifyError(err);
+      if (!lastError.retryable || attempt >= retries) throw lastError;
+
+      const factor = lastError.category === 'quota' ? 2 : 1;
+      const exponential = baseDelayMs * factor * 2 ** attempt;
+      const delayMs = Math.min(maxDelayMs, exponential * (0.75 + Math.random() * 0.5));
+      onRetry?.(attempt + 1, lastError, delayMs);
+      await sleep(delayMs, signal);
+    }
+  }
+};
@@ -0,0 +1,142 @@
+/**
+ * Local persistence of consultation sessions (IndexedDB).
+ *
+ * Full sessions — photos, marks, results — go to the `sessions` store; a
+ * small summary with a thumbnail goes to `summaries` in the same transaction,
+ * so the session list never has to load every photo.
+ */
+
+import { compressImage } from './imageUtils';
+import { openDb, requestResult, SESSIONS, SUMMARIES, transactionDone } from './localDb';
+import type { ImageProviderId } from './providers';
+import type {
+  AngleCalibrationMap,
+  AngleDrawingMap,
+  AngleHairMap,
+  AngleHistoryMap,
+  AnglePhotoMap,
+  AngleResult,
+  DensityLevel,
+  DensityRange,
+  PipelineStep,
+  Procedure,
+  ReferenceMode,
+  SimulationAngle,
+} from '../types';
+
+/** Everything HairRestore needs to pick a consultation back up */
+export interface SessionSnapshot {
+  /** Patient the consultation belongs to, if one was selected */
+  patientId: string | null;
+  step: PipelineStep;
+  /** Procedure the angles belong to (absent in older sessions: scalp) */
+  procedure?: Procedure;
+  anglePhotos: AnglePhotoMap;
+  drawings: AngleDrawingMap;
+  histories: AngleHistoryMap;
+  calibrations: AngleCalibrationMap;
+  /** Sampled hair per angle (absent in older sessions) */
+  hairProfiles?: AngleHairMap;
+  densityRange: DensityRange;
+  /** Density scenario of the main run (absent in older sessions: full) */
+  densityLevel?: DensityLevel;
+  results: AngleResult[];
+  angleProviders: Record<SimulationAngle, ImageProviderId>;
+  variantCount: number;
+  /** Few-shot reference mode (absent in older sessions: the configured default) */
+  referenceMode?: ReferenceMode;
+  activeDrawingAngle: SimulationAngle;
+  /** Consultant's notes for the report (absent in sessions saved before reports) */
+  notes?: string;
+}
+
+export interface StoredSession extends SessionSnapshot {
+  id: string;
+  createdAt: number;
+  updatedAt: number;
+}
+
+export interface SessionSummary {
+  id: string;
+  patientId: string | null;
+  createdAt: number;
+  updatedAt: number;
+  photoCount: number;
+  drawnCount: number;
+  resultCount: number;
+  thumbnail: string | null;
+}
+
+const THUMBNAIL_SIZE = 160;
+
+// ---------------------------------------------------------------------------
+// Sessions
+// ---------------------------------------------------------------------------
+
+export const createSessionId = () => `session-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+
+// The thumbnail only changes with the first photo, so keep the last one
+let thumbnailCache: { source: Blob; thumbnail: string } | null = null;
+
+const makeThumbnail = async (source: Blob | null): Promise<string | null> => {
+  if (!source) return null;
+  if (thumbnailCache?.source !== source) {
+    const url = URL.createObjectURL(source);
+    try {
+      thumbnailCache = { source, thumbnail: await compressImage(url, THUMBNAIL_SIZE, 0.7) };
+    } finally {
+      URL.revokeObjectURL(url);
+    }
+  }
+  return thumbnailCache.thumbnail;
+};
+
+const summarize = async (session: StoredSession): Promise<SessionSummary> => {
+  const photos = Object.values(session.anglePhotos).filter((img): img is Blob => img !== null);
+  return {
+    id: session.id,
+    patientId: session.patientId ?? null,
+    createdAt: session.createdAt,
+    updatedAt: session.updatedAt,
+    photoCount: photos.length,
+    drawnCount: Object.values(session.drawings).filter((d) => d.compositeDataUrl !== null).length,
+    resultCount: session.results.filter((r) => r.image !== null).length,
+    thumbnail: await makeThumbnail(photos[0] ?? null),
+  };
+};
+
+export const saveSession = async (session: StoredSession): Promise<void> => {
+  const summary = await summarize(session);
+  const db = await openDb();
+  const tx = db.transaction([SESSIONS, SUMMARIES], 'readwrite');
+  tx.objectStore(SESSIONS).put(session);
+  tx.objectStore(SUMMARIES).put(summary);
+  await transactionDone(tx);
+};
+
+export const loadSession = async (id: string): Promise<StoredSession | null> => {
+  const db = await openDb();
+  const session = await requestResult(db.transaction(SESSIONS).objectStore(SESSIONS).get(id));
+  return (session as StoredSession | undefined) ?? null;
+};
+
+/** Most recently updated first */
+export const listSessions = async (): Promise<SessionSummary[]> => {
+  const db = await openDb();
+  const summaries = await requestResult(db.transaction(SUMMARIES).objectStore(SUMMARIES).getAll());
+  return (summaries as SessionSummary[])
+    .map((s) => ({ ...s, patientId: s.patientId ?? null }))
+    .sort((a, b) => b.updatedAt - a.updatedAt);
+};
+
+export const deleteSession = (id: string): Promise<void> => deleteSessions([id]);
+
+export const deleteSessions = async (ids: string[]): Promise<void> => {
+  const db = await openDb();
+  const tx = db.transaction([SESSIONS, SUMMARIES], 'readwrite');
+  for (const id of ids) {
+    tx.objectStore(SESSIONS).delete(id);
+    tx.objectStore(SUMMARIES).delete(id);
+  }
+  await transactionDone(tx);
+};
@@ -0,0 +1,51 @@
+/**
+ * Zoom / pan math for the drawing viewport.
+ *
+ * The stage (photo + canvases) is laid out at its unzoomed CSS size and shown
+ * through `translate(x, y) scale(zoom)` with origin at the top-left corner, so
+ * a viewport point p maps to stage point (p - {x, y}) / zoom.
+ */
+
+import type { Point } from '../types';
+
+export interface ViewTransform {
+  zoom: number;
+  x: number;
+  y: number;
+}
+
+export const IDENTITY_VIEW: ViewTransform = { zoom: 1, x: 0, y: 0 };
+
+export const MIN_ZOOM = 1;
+export const MAX_ZOOM = 8;
+
+/** Keep the zoom in range and the stage covering the whole viewport */
+export const clampView = (view: ViewTransform, width: number, height: number): ViewTransform => {
+  const zoom = Math.min(MAX_ZOOM, Math.max(MIN_ZOOM, view.zoom));
+  return {
+    zoom,
+    x: Math.min(0, Math.max(width - width * zoom, view.x)),
+    y: Math.min(0, Math.max(height - height * zoom, view.y)),
+  };
+};
+
+/** Zoom to `zoom` keeping the stage point under `anchor` (viewport coords) fixed */
+export const zoomAt = (view: ViewTransform, zoom: number, anchor: Point): ViewTransform => {
+  const ratio = zoom / view.zoom;
+  return {
+    zoom,
+    x: anchor.x - (anchor.x - view.x) * ratio,
+    y: anchor.y - (anchor.y - view.y) * ratio,
+  };
+};
+
+/** Center the viewport on a stage point */
+export const centerOn = (view: ViewTransform, point: Point, width: number, height: number): ViewTransform => ({
+  zoom: view.zoom,
+  x: width / 2 - point.x * view.zoom,
+  y: height / 2 - point.y * view.zoom,
+});
+
+export const distance = (a: Point, b: Point) => Math.hypot(a.x - b.x, a.y - b.y);
+
+export const midpoint = (a: Point, b: Point): Point => ({ x: (a.x + b.x) / 2, y: (a.y + b.y) / 2 });
@@ -1,17 +1,160 @@
-// --- Angles (2 only: frontal + top) ---
-export type SimulationAngle = 'frontal' | 'top';
+// --- Procedures ---
+// Each procedure has its own set of angles (see PROCEDURE_ANGLES).
+export type Procedure = 'scalp' | 'beard' | 'eyebrow';
+
+// --- Angles ---
+// Scalp: frontal + top are the core pair; left/right are lateral profiles
+// and crown is the posterior vertex seen from behind.
+// Beard: face front and both three-quarter views (cheeks, mustache, goatee).
+// Eyebrow: a close-up of both brows and a three-quarter view of each.
+export type SimulationAngle =
+  | 'frontal' | 'top' | 'left' | 'right' | 'crown'
+  | 'beard_front' | 'beard_left' | 'beard_right'
+  | 'brow_front' | 'brow_left' | 'brow_right';
 
 export type AngleImageMap = Record<SimulationAngle, string | null>;
 
+/**
+ * Hair density a simulation aims for. `full` is the historical behaviour;
+ * the lower levels show what a limited donor area can realistically give.
+ */
+export type DensityLevel = 'conservative' | 'moderate' | 'full';
+
+/**
+ * Months after the procedure shown by a timeline image. 18 is the final
+ * result, the same thing a regular simulation shows.
+ */
+export type GrowthStage = 3 | 6 | 12 | 18;
+
+/**
+ * Few-shot reference use: never, always, or on every other variant so both
+ * can be compared (see services/referenceLibrary).
+ */
+export type ReferenceMode = 'off' | 'on' | 'ab';
+
+// --- Hair sample ---
+export type HairTexture = 'straight' | 'wavy' | 'curly';
+
+/** The patient's existing hair, sampled from a photo (see services/hairSampler) */
+export interface HairProfile {
+  /** Hex colours, darkest to lightest */
+  palette: string[];
+  /** Coarse hint from the strand orientation */
+  texture: HairTexture;
+  /** Detected next to the mask, or picked by the consultant */
+  source: 'auto' | 'picked';
+  /** Where it was picked, in the photo's natural pixels */
+  point?: Point;
+}
+
+export type AngleHairMap = Record<SimulationAngle, HairProfile | null>;
+
+/** Ingested photos (see services/photoIngest); shown through object URLs */
+export type AnglePhotoMap = Record<SimulationAngle, Blob | null>;
+
 // --- Drawing ---
 export interface DrawingState {
   drawingDataUrl: string | null;
   compositeDataUrl: string | null;
+  /** Painted pixels (natural resolution) at confirmation, for the area estimate */
+  maskPixels?: number;
 }
 
 export type AngleDrawingMap = Record<SimulationAngle, DrawingState>;
 
+export interface Point {
+  x: number;
+  y: number;
+}
+
+/** One brush or eraser stroke, in photo (natural) pixel coordinates */
+export interface StrokeAction {
+  type: 'stroke';
+  points: Point[];
+  size: number;
+  color: string;
+  erase: boolean;
+  /** Symmetry axis (x, image pixels): the stroke is also drawn mirrored across it */
+  mirrorX?: number;
+}
+
+/**
+ * Vector hairline: a Catmull-Rom curve through `points`, filled toward the
+ * existing hair (direction -1 = up, 1 = down) up to where it was detected
+ * (`edge`), or over a fixed `depth` in pixels when detection found none.
+ * Editing pushes a new action with the same `id`; only the latest version
+ * of an id is rendered, so undo restores the previous shape.
+ */
+export interface HairlineAction {
+  type: 'hairline';
+  id: string;
+  points: Point[];
+  depth: number;
+  direction: 1 | -1;
+  /** Distance from each curve sample to the detected hair, in pixels */
+  edge?: number[];
+  color: string;
+}
+
+/** "Limpar Tudo" — kept in history so it can be undone */
+export interface ClearAction {
+  type: 'clear';
+}
+
+export type DrawAction = StrokeAction | HairlineAction | ClearAction;
+
+/** Undo/redo stacks for one photo; the drawing is the replay of `actions` */
+export interface DrawingHistory {
+  actions: DrawAction[];
+  redo: DrawAction[];
+}
+
+export type AngleHistoryMap = Record<SimulationAngle, DrawingHistory>;
+
+// --- Patients ---
+
+/** Norwood-Hamilton scale of male pattern hair loss */
+export type NorwoodGrade = 'I' | 'II' | 'IIa' | 'III' | 'IIIa' | 'III vertex' | 'IV' | 'IVa' | 'V' | 'Va' | 'VI' | 'VII';
+
+export interface Patient {
+  id: string;
+  name: string;
+  contact: string;
+  age: number | null;
+  norwood: NorwoodGrade | null;
+  notes: string;
+  createdAt: number;
+  updatedAt: number;
+}
+
+// --- Measurement ---
+
+export type CalibrationKind = 'reference' | 'ipd';
+
+/** Two points on the photo (natural pixels) that are `lengthMm` apart in reality */
+export interface Calibration {
+  kind: CalibrationKind;
+  points: [Point, Point];
+  lengthMm: number;
+}
+
+export type AngleCalibrationMap = Record<SimulationAngle, Calibration | null>;
+
+/** Follicular units per cm² */
+export interface DensityRange {
+  min: number;
+  max: number;
+}
+
 // --- Pipeline ---
+export type SimulationErrorCategory =
+  | 'quota'      // rate limit / quota exhausted (HTTP 429)
+  | 'safety'     // blocked by the provider's safety filters
+  | 'timeout'    // request or function timed out
+  | 'no_image'   // model answered with text instead of an image
+  | 'network'    // connection failures and 5xx from the provider/server
+  | 'unknown';
+
 export type PipelineStep =
   | 'upload'
   | 'draw'
@@ -21,16 +164,50 @@ export type PipelineStep =
 export interface AngleResult {
   angle: SimulationAngle;
   label: string;
+  /** Currently chosen variant — what gets displayed and downloaded */
   image: string | null;
+  /** One slot per requested variant; null while pending or if it failed */
+  variants: (string | null)[];
+  selectedVariant: number;
   status: 'pending' | 'loading' | 'success' | 'error';
+  /** Epoch ms when generation for this angle started */
+  startedAt?: number;
+  /** Total generation time, set once every variant has settled */
+  elapsedMs?: number;
   errorMessage?: string;
+  errorCategory?: SimulationErrorCategory;
+  /** Density the variants were generated at (absent in older sessions: full) */
+  density?: DensityLevel;
+  /** Single images at each density level, for the side-by-side comparison */
+  scenarios?: Partial<Record<DensityLevel, string>>;
+  /** Intermediate growth stages; the final stage is `image` itself */
+  timeline?: Partial<Record<GrowthStage, string>>;
+  /** Reference case attached to each variant (null: none), for A/B comparison */
+  variantReferences?: (string | null)[];
 }
 
 // --- DrawingCanvas props ---
 export interface DrawingCanvasProps {
   photoDataUrl: string;
-  onDrawingComplete: (drawingDataUrl: string, compositeDataUrl: string) => void;
+  /** Stroke history to start from (e.g. when coming back to an angle tab) */
+  history?: DrawingHistory;
+  /** Called after every stroke, undo, redo or clear */
+  onHistoryChange?: (history: DrawingHistory) => void;
+  onDrawingComplete: (drawingDataUrl: string, compositeDataUrl: string, maskPixels: number) => void;
   width?: number;
   brushColor?: string;
+  /** Offer the mirror symmetry mode (frontal photo) */
+  symmetry?: boolean;
+  /** Photo scale, shared with the results step through the parent */
+  calibration?: Calibration | null;
+  onCalibrationChange?: (calibration: Calibration | null) => void;
+  /** Offer the interpupillary distance as calibration reference (frontal photo) */
+  interpupillary?: boolean;
+  densityRange?: DensityRange;
+  /** Screen pixels at 100% zoom; converted to image pixels once the photo loads */
   initialBrushSize?: number;
+  /** Offer the hair colour picker; called with the clicked point in image pixels */
+  onPickHair?: (point: Point) => void;
+  /** Current hair sample, marked on the photo when it was picked */
+  hairSample?: HairProfile | null;
 }
@@ -11,8 +11,13 @@ export default defineConfig(({ mode }) => {
     },
     plugins: [react()],
     define: {
-      'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-      'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY),
+      'process.env.IMAGE_PROVIDER': JSON.stringify(env.IMAGE_PROVIDER),
+      'process.env.IMAGE_PROVIDER_BY_ANGLE': JSON.stringify(env.IMAGE_PROVIDER_BY_ANGLE),
+      'process.env.SIMULATION_VARIANTS': JSON.stringify(env.SIMULATION_VARIANTS),
+      'process.env.SIMULATION_CONCURRENCY': JSON.stringify(env.SIMULATION_CONCURRENCY),
+      'process.env.SIMULATION_ANGLE_CONCURRENCY': JSON.stringify(env.SIMULATION_ANGLE_CONCURRENCY),
+      'process.env.PHOTO_MIN_SIDE': JSON.stringify(env.PHOTO_MIN_SIDE),
+      'process.env.REFERENCE_EXAMPLES': JSON.stringify(env.REFERENCE_EXAMPLES),
     },
     resolve: {
       alias: {